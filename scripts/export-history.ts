@@ -0,0 +1,78 @@
+/**
+ * Conversation Export Script
+ *
+ * Renders a project's conversation as Markdown or self-contained HTML.
+ *
+ * Usage:
+ *   npm run export -- <project> [md|html] [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--out file]
+ *   npm run export -- my-webapp html --since 2026-01-01
+ *   npm run export -- ~/claude-projects/my-webapp md --out transcript.md
+ *
+ * <project> is a project name under PROJECTS_ROOT or a path. Without --out
+ * the file is written to the project's exports/ folder.
+ */
+
+import { existsSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { config, expandHome } from '../src/config.js';
+import { exportConversation, parseExportFormat, renderConversation } from '../src/export.js';
+import { parseDateFilter } from '../src/search.js';
+import { getErrorMessage } from '../src/utils.js';
+
+function usage(): never {
+  console.log('Usage: npm run export -- <project> [md|html] [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--out file]');
+  process.exit(1);
+}
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value) usage();
+  args.splice(index, 2);
+  return value;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const sinceArg = optionValue(args, '--since');
+  const untilArg = optionValue(args, '--until');
+  const out = optionValue(args, '--out');
+  const [project, formatArg = 'md'] = args;
+
+  if (!project) usage();
+
+  const format = parseExportFormat(formatArg);
+  if (!format) usage();
+
+  const candidatePath = resolve(expandHome(project));
+  const projectPath = existsSync(candidatePath) ? candidatePath : join(config.projectsRoot, project);
+  if (!existsSync(projectPath)) {
+    console.error(`Project not found: ${project}`);
+    process.exit(1);
+  }
+
+  let since: Date | undefined;
+  let until: Date | undefined;
+  try {
+    since = sinceArg ? parseDateFilter(sinceArg, false) : undefined;
+    until = untilArg ? parseDateFilter(untilArg, true) : undefined;
+  } catch (error) {
+    console.error(getErrorMessage(error));
+    process.exit(1);
+  }
+
+  if (out) {
+    const { content, messages } = await renderConversation(projectPath, { format, since, until });
+    writeFileSync(out, content);
+    console.log(`Exported ${messages.length} message(s) to ${resolve(out)}`);
+  } else {
+    const { path, messageCount } = await exportConversation(projectPath, { format, since, until });
+    console.log(`Exported ${messageCount} message(s) to ${path}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(getErrorMessage(error));
+  process.exit(1);
+});
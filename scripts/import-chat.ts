@@ -0,0 +1,100 @@
+/**
+ * Chat Import Script
+ *
+ * Imports a WhatsApp "Export chat" text file into a project's history, so
+ * the discussion from before the group was bridged is searchable and
+ * exportable. Optionally summarizes it into a new Claude session.
+ *
+ * Usage:
+ *   npm run import -- <export.txt> <project> [--date-order dmy|mdy|ymd] [--seed]
+ *   npm run import -- "WhatsApp Chat with Webapp.txt" my-webapp
+ *   npm run import -- chat.txt my-webapp --date-order mdy --seed
+ *
+ * <project> is a project name under PROJECTS_ROOT or a path. Only messages
+ * older than the project's existing history are imported. The bridge must be
+ * stopped first: it keeps the session state in memory and would overwrite
+ * (or be overwritten by) what this script writes.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { config, expandHome } from '../src/config.js';
+import { readHistoryPage } from '../src/history.js';
+import { importChatExport, seedSessionFromImport, type DateOrder } from '../src/import.js';
+import { getLockHolder } from '../src/lockfile.js';
+import { getRegisteredGroup, loadState } from '../src/sessions.js';
+import { getErrorMessage } from '../src/utils.js';
+
+const DATE_ORDERS: DateOrder[] = ['dmy', 'mdy', 'ymd'];
+
+function usage(): never {
+  console.log('Usage: npm run import -- <export.txt> <project> [--date-order dmy|mdy|ymd] [--seed]');
+  process.exit(1);
+}
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value) usage();
+  args.splice(index, 2);
+  return value;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dateOrderArg = optionValue(args, '--date-order');
+  const seed = args.includes('--seed');
+  const [file, project] = args.filter((arg) => arg !== '--seed');
+
+  if (!file || !project) usage();
+  if (dateOrderArg && !DATE_ORDERS.includes(dateOrderArg as DateOrder)) usage();
+
+  const bridgePid = getLockHolder();
+  if (bridgePid !== null) {
+    console.error(`WhatsClaude is running (PID ${bridgePid}). Stop it before importing, then start it again.`);
+    process.exit(1);
+  }
+
+  const candidatePath = resolve(expandHome(project));
+  const projectPath = existsSync(candidatePath) ? candidatePath : join(config.projectsRoot, project);
+  if (!existsSync(projectPath)) {
+    console.error(`Project not found: ${project}`);
+    process.exit(1);
+  }
+
+  // The group ID is only known once the bot has seen the group; fall back to a placeholder
+  loadState();
+  const projectName = basename(projectPath);
+  const groupId = getRegisteredGroup(projectName) ?? `import:${projectName}`;
+  const { messages: [first] } = await readHistoryPage(projectPath, { limit: 1, newestFirst: false });
+  const groupName = first?.groupName ?? `${config.groupPrefix} ${projectName}`;
+
+  const { imported, duplicates, overlapping } = await importChatExport(projectPath, readFileSync(file, 'utf-8'), {
+    groupId,
+    groupName,
+    dateOrder: dateOrderArg as DateOrder | undefined,
+  });
+
+  console.log(`Imported ${imported.length} message(s) into ${projectPath}`);
+  if (duplicates > 0) console.log(`  ${duplicates} already imported`);
+  if (overlapping > 0) console.log(`  ${overlapping} skipped (already covered by the existing history)`);
+
+  if (seed && imported.length > 0) {
+    console.log('Summarizing the imported messages...');
+    try {
+      const { installed } = await seedSessionFromImport(projectPath, imported, { groupId, groupName });
+      console.log(installed
+        ? 'Claude session seeded with the summary.'
+        : 'The group already has a session; the summary was stored in the history only.');
+    } catch (error) {
+      console.error(`Summarizing failed: ${getErrorMessage(error)}`);
+      process.exit(1);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(getErrorMessage(error));
+  process.exit(1);
+});
@@ -2,7 +2,7 @@
  * Reset State Script
  *
  * Clears all development/test state for a fresh start.
- * Preserves WhatsApp authentication (.wwebjs_auth/).
+ * Preserves WhatsApp authentication (.wwebjs_auth/) and group settings (.whatsclaude-groups/).
  *
  * Usage:
  *   npm run reset-state              # Interactive, shows preview
@@ -15,6 +15,7 @@ import { createInterface } from 'readline';
 import { config } from '../src/config.js';
 
 const SESSIONS_FILE = '.whatsclaude-sessions.json';
+const USAGE_DIR = '.whatsclaude-usage';
 const LOCKFILE = '.whatsclaude.pid';
 
 async function main() {
@@ -33,13 +34,17 @@ async function main() {
     .filter(e => e.isDirectory() && !e.name.startsWith('.'))
     .map(e => e.name);
 
-  const sessionsPath = join(projectsRoot, SESSIONS_FILE);
-  const hasSessionsFile = existsSync(sessionsPath);
+  // State file plus its backup and any set-aside corrupt copies
+  const sessionFiles = entries
+    .filter(e => e.isFile() && e.name.startsWith(SESSIONS_FILE))
+    .map(e => join(projectsRoot, e.name));
+  const usageDir = join(projectsRoot, USAGE_DIR);
+  const hasUsage = existsSync(usageDir);
   const lockfilePath = join(process.cwd(), LOCKFILE);
   const hasLockfile = existsSync(lockfilePath);
 
   // 3. Nothing to delete?
-  if (projectDirs.length === 0 && !hasSessionsFile && !hasLockfile) {
+  if (projectDirs.length === 0 && sessionFiles.length === 0 && !hasUsage && !hasLockfile) {
     console.log('Nothing to reset - no projects or sessions found.');
     return;
   }
@@ -49,8 +54,11 @@ async function main() {
   for (const dir of projectDirs) {
     console.log(`  [dir]  ${join(projectsRoot, dir)}/`);
   }
-  if (hasSessionsFile) {
-    console.log(`  [file] ${sessionsPath}`);
+  for (const file of sessionFiles) {
+    console.log(`  [file] ${file}`);
+  }
+  if (hasUsage) {
+    console.log(`  [dir]  ${usageDir}/`);
   }
   if (hasLockfile) {
     console.log(`  [file] ${lockfilePath}`);
@@ -70,8 +78,11 @@ async function main() {
   for (const dir of projectDirs) {
     rmSync(join(projectsRoot, dir), { recursive: true, force: true });
   }
-  if (hasSessionsFile) {
-    rmSync(sessionsPath);
+  for (const file of sessionFiles) {
+    rmSync(file);
+  }
+  if (hasUsage) {
+    rmSync(usageDir, { recursive: true, force: true });
   }
   if (hasLockfile) {
     rmSync(lockfilePath);
@@ -0,0 +1,63 @@
+/**
+ * History Search Script
+ *
+ * Searches the conversation history of every project under PROJECTS_ROOT.
+ *
+ * Usage:
+ *   npm run search -- <words> [filters]
+ *   npm run search -- "login bug" sender:alice since:2026-01-01
+ *   npm run search -- /TODO|FIXME/ role:assistant group:webapp limit:50
+ *   npm run search -- --json deploy
+ *
+ * Filters: group:, sender:, role:, since:, until:, limit:, /regex/flags
+ */
+
+import { parseSearchQuery, searchHistory } from '../src/search.js';
+import { getErrorMessage } from '../src/utils.js';
+
+function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const terms = args.filter(arg => arg !== '--json').join(' ');
+
+  if (!terms.trim()) {
+    console.log('Usage: npm run search -- <words> [group:name] [sender:name] [role:user|assistant|system]');
+    console.log('                            [since:YYYY-MM-DD] [until:YYYY-MM-DD] [limit:N] [/regex/] [--json]');
+    process.exit(1);
+  }
+
+  let query;
+  try {
+    query = parseSearchQuery(terms);
+  } catch (error) {
+    console.error(getErrorMessage(error));
+    process.exit(1);
+  }
+
+  let results;
+  try {
+    results = searchHistory(query);
+  } catch (error) {
+    console.error(getErrorMessage(error));
+    process.exit(1);
+  }
+
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log('No matches.');
+    return;
+  }
+
+  for (const { message: m } of results) {
+    const ts = m.ts.slice(0, 16).replace('T', ' ');
+    console.log(`[${ts}] ${m.groupName} / ${m.senderName} (${m.role})`);
+    console.log(`  ${m.content.replace(/\n/g, '\n  ')}\n`);
+  }
+  console.log(`${results.length} match(es), newest first.`);
+}
+
+main();
@@ -0,0 +1,118 @@
+/**
+ * Per-sender access control for WhatsClaude
+ *
+ * A group can restrict who may talk to Claude with an allowlist of phone
+ * numbers (the "members" setting), each mapped to a role. The role decides
+ * which tools Claude may use for that sender's request and which commands
+ * they may run. Groups without an allowlist treat everyone as an owner.
+ */
+
+import { createLogger, type Logger } from './logger.js';
+import { appendToHistory } from './history.js';
+import type { Role } from './types.js';
+
+/**
+ * Roles from least to most privileged
+ */
+const ROLE_ORDER: Role[] = ['readonly', 'contributor', 'owner'];
+
+/**
+ * Tools each role's requests may use; owners may use every tool the group allows
+ *
+ * An allowlist, so tools that aren't named here (Bash, Task, ...) stay off
+ * for lower roles whatever the group enables.
+ */
+const ROLE_TOOLS: Record<Exclude<Role, 'owner'>, string[]> = {
+  contributor: ['Read', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit', 'Glob', 'Grep', 'WebSearch', 'WebFetch', 'TodoWrite'],
+  readonly: ['Read', 'Glob', 'Grep', 'WebSearch'],
+};
+
+/**
+ * Normalize a sender ID or configured phone number for comparison
+ *
+ * "15551234567@c.us" and "+1 555 123-4567" both become "15551234567".
+ * IDs without digits (e.g. "terminal:alice") are only lowercased.
+ */
+export function normalizeSenderId(id: string): string {
+  const digits = id.split('@')[0].replace(/\D/g, '');
+  return digits || id.toLowerCase();
+}
+
+/**
+ * Check whether a role is at least as privileged as the required one
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required);
+}
+
+/**
+ * Get the least privileged of several roles (used for batches from several senders)
+ */
+export function lowestRole(roles: Role[]): Role {
+  return roles.reduce((lowest, role) => (hasRole(lowest, role) ? role : lowest), 'owner');
+}
+
+/**
+ * Get a sender's role in a group
+ *
+ * "self" (our own account on another device) is always an owner.
+ *
+ * @returns The role, or null if the group has an allowlist and the sender isn't on it
+ */
+export function getSenderRole(members: Record<string, Role> | undefined, senderId: string): Role | null {
+  if (!members || senderId === 'self') {
+    return 'owner';
+  }
+
+  const normalized = normalizeSenderId(senderId);
+  for (const [member, role] of Object.entries(members)) {
+    if (normalizeSenderId(member) === normalized) {
+      return role;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the tools Claude may use for a request from this role
+ *
+ * @param allowedTools - The group's allowed tools
+ */
+export function getPermittedTools(role: Role, allowedTools: string[]): string[] {
+  return role === 'owner' ? allowedTools : allowedTools.filter((tool) => ROLE_TOOLS[role].includes(tool));
+}
+
+/**
+ * Details of a rejected message, for the history log
+ */
+export interface AccessDenial {
+  projectPath: string;
+  groupId: string;
+  groupName: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  /** Human-readable reason, also sent to the group */
+  reason: string;
+  /** Logger carrying the message's correlation ID */
+  logger?: Logger;
+}
+
+/**
+ * Log an access denial and record it in the project history
+ */
+export function recordDenial(denial: AccessDenial): void {
+  const { projectPath, groupId, groupName, messageId, senderId, senderName, reason } = denial;
+  const logger = denial.logger ?? createLogger({ groupId, groupName, messageId });
+  logger.warn(`Access denied for ${senderName} (${senderId}): ${reason}`);
+  appendToHistory(projectPath, {
+    id: `denied-${messageId}`,
+    ts: new Date().toISOString(),
+    groupId,
+    groupName,
+    role: 'system',
+    sender: senderId,
+    senderName,
+    content: `Access denied: ${reason}`,
+  });
+}
@@ -0,0 +1,273 @@
+/**
+ * Operator alerts for WhatsClaude
+ *
+ * Things a person has to act on - WhatsApp needing a new QR code scan,
+ * reconnecting failing again and again - go to every configured sink:
+ * a local command, a webhook and/or email through a local SMTP relay
+ * (config.alerts). Sinks are pluggable; a failing sink is logged and the
+ * others still run.
+ */
+
+import { exec } from 'child_process';
+import { connect, type Socket } from 'net';
+import { hostname } from 'os';
+import { config } from './config.js';
+import { log } from './logger.js';
+import { getErrorMessage } from './utils.js';
+import type { Config } from './types.js';
+
+/**
+ * What an alert is about
+ */
+export type AlertKind = 'auth_required' | 'reconnect_failing' | 'recovered';
+
+export interface Alert {
+  kind: AlertKind;
+  /** Transport the alert is about */
+  transport: string;
+  message: string;
+  /** ISO timestamp */
+  ts: string;
+}
+
+/**
+ * Delivers alerts somewhere a person will see them
+ */
+export interface AlertSink {
+  /** Short name for logging */
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+/**
+ * One-line summary of each kind of alert (used as the email subject)
+ */
+export const ALERT_TITLES: Record<AlertKind, string> = {
+  auth_required: 'WhatsApp needs a new QR code scan',
+  reconnect_failing: 'WhatsApp keeps failing to reconnect',
+  recovered: 'WhatsApp is connected again',
+};
+
+/**
+ * Give up on a sink after this long
+ */
+const SINK_TIMEOUT_MS = 30000;
+
+/**
+ * Create a sink that runs a shell command
+ *
+ * The alert is passed as JSON on stdin and as WHATSCLAUDE_ALERT_KIND,
+ * WHATSCLAUDE_ALERT_TITLE and WHATSCLAUDE_ALERT_MESSAGE environment variables.
+ */
+export function createCommandSink(command: string, timeoutMs = SINK_TIMEOUT_MS): AlertSink {
+  return {
+    name: 'command',
+    send: (alert) => new Promise<void>((resolve, reject) => {
+      const child = exec(command, {
+        timeout: timeoutMs,
+        env: {
+          ...process.env,
+          WHATSCLAUDE_ALERT_KIND: alert.kind,
+          WHATSCLAUDE_ALERT_TITLE: ALERT_TITLES[alert.kind],
+          WHATSCLAUDE_ALERT_MESSAGE: alert.message,
+        },
+      }, (error, _stdout, stderr) => {
+        if (error) {
+          reject(new Error(`${command} failed: ${stderr.trim() || error.message}`));
+        } else {
+          resolve();
+        }
+      });
+      // The command may not read stdin at all
+      child.stdin?.on('error', () => {});
+      child.stdin?.end(`${JSON.stringify({ ...alert, title: ALERT_TITLES[alert.kind] })}\n`);
+    }),
+  };
+}
+
+/**
+ * Create a sink that POSTs the alert as JSON
+ */
+export function createWebhookSink(url: string, timeoutMs = SINK_TIMEOUT_MS): AlertSink {
+  return {
+    name: 'webhook',
+    send: async (alert) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...alert, title: ALERT_TITLES[alert.kind] }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`webhook answered ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+export interface MailOptions {
+  host: string;
+  port: number;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Encode a header value that isn't plain ASCII (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Read SMTP replies (possibly multi-line) off a socket
+ */
+function createReplyReader(socket: Socket): () => Promise<{ code: number; text: string }> {
+  const lines: string[] = [];
+  let buffer = '';
+  let failure: Error | undefined;
+  let wake: (() => void) | undefined;
+
+  socket.setEncoding('utf-8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    const complete = buffer.split('\r\n');
+    buffer = complete.pop() ?? '';
+    lines.push(...complete);
+    wake?.();
+  });
+  socket.on('error', (error) => {
+    failure = error;
+    wake?.();
+  });
+  socket.on('close', () => {
+    failure ??= new Error('SMTP server closed the connection');
+    wake?.();
+  });
+
+  return async () => {
+    const reply: string[] = [];
+    for (;;) {
+      while (lines.length === 0) {
+        if (failure) throw failure;
+        await new Promise<void>((resolve) => { wake = resolve; });
+        wake = undefined;
+      }
+      const line = lines.shift()!;
+      reply.push(line);
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10), text: reply.join('\n') };
+      }
+    }
+  };
+}
+
+/**
+ * Send a plain-text email through an SMTP server without TLS or authentication
+ */
+export async function sendMail(options: MailOptions): Promise<void> {
+  const { host, port, from, to, subject, text, timeoutMs = SINK_TIMEOUT_MS } = options;
+  const socket = connect({ host, port });
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP server ${host}:${port} timed out`)));
+  const read = createReplyReader(socket);
+
+  const expect = async (step: string, codes: number[]) => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP server refused ${step}: ${reply.text}`);
+    }
+  };
+  const command = async (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    await expect(line.split(' ')[0], codes);
+  };
+
+  try {
+    await expect('the connection', [220]);
+    await command(`EHLO ${hostname()}`, [250]);
+    await command(`MAIL FROM:<${from}>`, [250]);
+    for (const recipient of to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+
+    const headers = [
+      `From: ${from}`,
+      `To: ${to.join(', ')}`,
+      `Subject: ${encodeHeader(subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+    // Lines starting with "." are doubled so they can't end the message early
+    const body = text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    socket.write(`${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`);
+    await expect('the message', [250]);
+    await command('QUIT', [221]);
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Create a sink that emails the alert through an SMTP server
+ */
+export function createEmailSink(email: NonNullable<Config['alerts']['email']>): AlertSink {
+  return {
+    name: 'email',
+    send: (alert) => sendMail({
+      ...email,
+      subject: `WhatsClaude: ${ALERT_TITLES[alert.kind]}`,
+      text: `${alert.message}\n\nTransport: ${alert.transport}\nTime: ${alert.ts}\nHost: ${hostname()}\n`,
+    }),
+  };
+}
+
+/**
+ * Create the sinks configured in config.alerts
+ */
+export function createConfiguredSinks(alerts: Config['alerts']): AlertSink[] {
+  return [
+    ...(alerts.command ? [createCommandSink(alerts.command)] : []),
+    ...(alerts.webhookUrl ? [createWebhookSink(alerts.webhookUrl)] : []),
+    ...(alerts.email ? [createEmailSink(alerts.email)] : []),
+  ];
+}
+
+// Active sinks (empty = alerts are only logged)
+let sinks: AlertSink[] = createConfiguredSinks(config.alerts);
+
+/**
+ * Get the active alert sinks
+ */
+export function getAlertSinks(): AlertSink[] {
+  return [...sinks];
+}
+
+/**
+ * Replace the active alert sinks
+ */
+export function setAlertSinks(next: AlertSink[]): void {
+  sinks = [...next];
+}
+
+/**
+ * Log an alert and send it to every sink (never throws)
+ */
+export async function sendAlert(kind: AlertKind, transport: string, message: string): Promise<void> {
+  const alert: Alert = { kind, transport, message, ts: new Date().toISOString() };
+  log(kind === 'recovered' ? 'info' : 'warn', `Alert: ${ALERT_TITLES[kind]} - ${message}`);
+
+  await Promise.all(sinks.map(async (sink) => {
+    try {
+      await sink.send(alert);
+    } catch (error) {
+      log('error', `Could not send the alert via ${sink.name}:`, getErrorMessage(error));
+    }
+  }));
+}
@@ -0,0 +1,150 @@
+/**
+ * Media attachment handling for WhatsClaude
+ *
+ * Images are passed to Claude as vision input; documents (PDF, text,
+ * zip, ...) are saved into the project so Claude can open them.
+ * Both are stored under <project>/.whatsclaude/uploads/.
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { ensureDir } from './utils.js';
+import type { AttachmentInfo, MediaAttachment } from './types.js';
+
+/**
+ * Upload directory, relative to the project directory
+ */
+export const UPLOADS_DIR = join('.whatsclaude', 'uploads');
+
+/**
+ * Image formats Claude accepts as vision input
+ */
+const VISION_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Message types that are forwarded to Claude as documents
+ */
+const DOCUMENT_MEDIA_TYPES = ['document'];
+
+/**
+ * Fallback extensions for attachments without a file name
+ */
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'application/json': '.json',
+};
+
+/**
+ * An image ready to be sent to Claude as a vision content block
+ */
+export interface ImageInput {
+  mediaType: string;
+  /** Base64-encoded image data */
+  data: string;
+}
+
+/**
+ * An attachment saved to disk and ready to be passed to Claude
+ */
+export interface PreparedAttachment {
+  info: AttachmentInfo;
+  /** Set for images Claude can see directly */
+  image?: ImageInput;
+}
+
+/**
+ * Decide how an attachment is forwarded to Claude
+ *
+ * @returns 'image', 'document', or null if the type isn't supported
+ */
+export function classifyAttachment(mediaType: string | undefined, mimetype: string): AttachmentInfo['kind'] | null {
+  if (VISION_MIME_TYPES.includes(mimetype.split(';')[0])) {
+    return 'image';
+  }
+  if (mediaType && DOCUMENT_MEDIA_TYPES.includes(mediaType)) {
+    return 'document';
+  }
+  return null;
+}
+
+/**
+ * Make a file name safe to write into the uploads directory
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename
+    .replace(/[/\\]/g, '_') // No path separators
+    .replace(/[^a-zA-Z0-9._-]/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^[._]+/, '') // No hidden files or leading underscores
+    .slice(0, 100) || 'file';
+}
+
+/**
+ * Build the upload file name: timestamp prefix + original (or generated) name
+ */
+function buildUploadName(media: MediaAttachment, messageId: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const mime = media.mimetype.split(';')[0];
+  const base = media.filename
+    ? sanitizeFilename(media.filename)
+    : `${sanitizeFilename(messageId)}${MIME_EXTENSIONS[mime] ?? ''}`;
+  return `${stamp}-${base}`;
+}
+
+/**
+ * Save an attachment into the project's uploads directory
+ */
+export function saveAttachment(
+  projectPath: string,
+  messageId: string,
+  media: MediaAttachment,
+  kind: AttachmentInfo['kind']
+): PreparedAttachment {
+  const uploadsPath = join(projectPath, UPLOADS_DIR);
+  ensureDir(uploadsPath);
+
+  const buffer = Buffer.from(media.data, 'base64');
+  const relativePath = join(UPLOADS_DIR, buildUploadName(media, messageId));
+  writeFileSync(join(projectPath, relativePath), buffer);
+
+  const info: AttachmentInfo = {
+    kind,
+    mimetype: media.mimetype,
+    ...(media.filename && { filename: media.filename }),
+    size: buffer.length,
+    path: relativePath,
+  };
+
+  return kind === 'image'
+    ? { info, image: { mediaType: media.mimetype.split(';')[0], data: media.data } }
+    : { info };
+}
+
+/**
+ * Format a byte count for humans (e.g. "12.3 KB")
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Build the prompt for a message with an attachment, telling Claude where the file is
+ */
+export function buildAttachmentPrompt(caption: string, info: AttachmentInfo): string {
+  const name = info.filename ? `"${info.filename}" ` : '';
+  const details = `${info.mimetype}, ${formatSize(info.size)}`;
+  const note = info.kind === 'image'
+    ? `[The user sent the image above. It is also saved at ${info.path} (${details}).]`
+    : `[The user sent a file ${name}which was saved at ${info.path} (${details}).]`;
+
+  return caption.trim() ? `${caption.trim()}\n\n${note}` : note;
+}
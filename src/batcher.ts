@@ -0,0 +1,91 @@
+/**
+ * Message batching for WhatsClaude
+ *
+ * People often send several short messages in a row. Messages arriving
+ * within a debounce window are collected per group and flushed together,
+ * so they reach Claude as a single prompt.
+ */
+
+export interface Batcher<T> {
+  /** Add an item to the key's batch, restarting the debounce window */
+  add(key: string, item: T): void;
+  /** Check whether the key has a batch waiting to be flushed */
+  has(key: string): boolean;
+  /** Flush the key's batch immediately */
+  flush(key: string): void;
+  /** Drop the key's batch without flushing, returning the dropped items */
+  cancel(key: string): T[];
+}
+
+interface PendingBatch<T> {
+  items: T[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Create a per-key debouncing batcher
+ *
+ * With windowMs = 0 every item is flushed on its own, immediately.
+ */
+export function createBatcher<T>(
+  windowMs: number,
+  onFlush: (key: string, items: T[]) => void
+): Batcher<T> {
+  const batches: Map<string, PendingBatch<T>> = new Map();
+
+  const flush = (key: string) => {
+    const batch = batches.get(key);
+    if (!batch) return;
+    clearTimeout(batch.timer);
+    batches.delete(key);
+    onFlush(key, batch.items);
+  };
+
+  return {
+    add(key, item) {
+      if (windowMs <= 0) {
+        onFlush(key, [item]);
+        return;
+      }
+
+      const batch = batches.get(key);
+      if (batch) {
+        clearTimeout(batch.timer);
+        batch.items.push(item);
+        batch.timer = setTimeout(() => flush(key), windowMs);
+      } else {
+        batches.set(key, { items: [item], timer: setTimeout(() => flush(key), windowMs) });
+      }
+    },
+    has(key) {
+      return batches.has(key);
+    },
+    flush,
+    cancel(key) {
+      const batch = batches.get(key);
+      if (!batch) return [];
+      clearTimeout(batch.timer);
+      batches.delete(key);
+      return batch.items;
+    },
+  };
+}
+
+/**
+ * Combine batched messages into one prompt
+ *
+ * Messages from a single sender are joined as paragraphs; when several
+ * people wrote, each line is attributed ("Alice: ...").
+ */
+export function combinePrompts(messages: { senderName: string; prompt: string }[]): string {
+  if (messages.length === 1) {
+    return messages[0].prompt;
+  }
+
+  const senders = new Set(messages.map((m) => m.senderName));
+  if (senders.size === 1) {
+    return messages.map((m) => m.prompt).join('\n\n');
+  }
+
+  return messages.map((m) => `${m.senderName}: ${m.prompt}`).join('\n\n');
+}
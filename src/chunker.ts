@@ -0,0 +1,214 @@
+/**
+ * Response chunking for WhatsClaude
+ *
+ * Splits long Claude responses and command replies into WhatsApp-sized messages.
+ * Prefers paragraph boundaries, keeps fenced code blocks intact
+ * where possible and re-opens them when a block must be split.
+ */
+
+import { config, formatBotResponse, formatServerMessage, BOT_PREFIX, SERVER_PREFIX } from './config.js';
+
+/**
+ * Characters reserved for the part number line, e.g. "(12/15)\n"
+ */
+const PART_NUMBER_RESERVE = 10;
+
+const FENCE = '```';
+
+/**
+ * A paragraph or fenced code block from the original response
+ */
+interface Block {
+  text: string;
+  /** Opening fence line (e.g. "```ts") if this block is a code block */
+  fence?: string;
+}
+
+/**
+ * Split text into paragraphs and fenced code blocks
+ */
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let fenceLines: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    const isFenceLine = line.trimStart().startsWith(FENCE);
+
+    if (fenceLines) {
+      fenceLines.push(line);
+      if (isFenceLine) {
+        blocks.push({ text: fenceLines.join('\n'), fence: fenceLines[0] });
+        fenceLines = null;
+      }
+    } else if (isFenceLine) {
+      flushParagraph();
+      fenceLines = [line];
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  if (fenceLines) {
+    // Unclosed fence - close it so every chunk renders correctly
+    fenceLines.push(FENCE);
+    blocks.push({ text: fenceLines.join('\n'), fence: fenceLines[0] });
+  }
+
+  return blocks;
+}
+
+/**
+ * Split plain text into pieces of at most `limit` characters,
+ * preferring line breaks, then spaces, then a hard cut
+ */
+function splitText(text: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    let cut = rest.lastIndexOf('\n', limit);
+    if (cut <= 0) cut = rest.lastIndexOf(' ', limit);
+    if (cut <= 0) cut = limit;
+
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).replace(/^[ \n]+/, '');
+  }
+
+  if (rest) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Split a fenced code block into pieces that each re-open and close the fence
+ */
+function splitFence(block: Block, limit: number): string[] {
+  const opener = block.fence ?? FENCE;
+  const lines = block.text.split('\n').slice(1, -1);
+  const overhead = opener.length + FENCE.length + 2; // two newlines
+  const lineLimit = Math.max(1, limit - overhead);
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      pieces.push(`${opener}\n${current.join('\n')}\n${FENCE}`);
+      current = [];
+      currentLength = 0;
+    }
+  };
+
+  for (const line of lines) {
+    // Hard-split overlong lines without trimming (whitespace matters in code)
+    const segments: string[] = [];
+    for (let i = 0; i < line.length; i += lineLimit) {
+      segments.push(line.slice(i, i + lineLimit));
+    }
+    if (segments.length === 0) segments.push('');
+
+    for (const segment of segments) {
+      if (current.length > 0 && currentLength + segment.length + 1 > lineLimit) {
+        flush();
+      }
+      currentLength += current.length > 0 ? segment.length + 1 : segment.length;
+      current.push(segment);
+    }
+  }
+
+  flush();
+  return pieces;
+}
+
+/**
+ * Split a response into chunks of at most `maxLength` characters
+ *
+ * Chunks are joined paragraphs; fenced code blocks stay whole unless
+ * they alone exceed the limit, in which case each piece is re-fenced.
+ */
+export function chunkText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  for (const block of parseBlocks(text)) {
+    if (block.text.length <= maxLength) {
+      pieces.push(block.text);
+    } else if (block.fence) {
+      pieces.push(...splitFence(block, maxLength));
+    } else {
+      pieces.push(...splitText(block.text, maxLength));
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const candidate = current ? `${current}\n\n${piece}` : piece;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+    } else {
+      if (current) chunks.push(current);
+      current = piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Format a Claude response as one or more bot messages
+ *
+ * Every chunk carries BOT_PREFIX (so the loop filter in whatsapp.ts
+ * still recognizes it) and, when split, a part number like "(1/4)".
+ */
+export function formatBotResponseChunks(
+  response: string,
+  maxLength: number = config.maxMessageLength
+): string[] {
+  return formatChunks(response, maxLength, BOT_PREFIX, formatBotResponse);
+}
+
+/**
+ * Format a command reply or notice as one or more server messages
+ */
+export function formatServerMessageChunks(
+  message: string,
+  maxLength: number = config.maxMessageLength
+): string[] {
+  return formatChunks(message, maxLength, SERVER_PREFIX, formatServerMessage);
+}
+
+/**
+ * Chunk text, numbering the chunks when split, and format each with a prefix
+ */
+function formatChunks(
+  text: string,
+  maxLength: number,
+  prefix: string,
+  format: (chunk: string) => string
+): string[] {
+  const chunks = chunkText(text, maxLength - prefix.length - PART_NUMBER_RESERVE);
+
+  if (chunks.length === 1) {
+    return [format(chunks[0])];
+  }
+  return chunks.map((chunk, i) => format(`(${i + 1}/${chunks.length})\n${chunk}`));
+}
@@ -2,28 +2,20 @@
  * Claude Agent SDK integration for WhatsClaude
  */
 
-import { query } from '@anthropic-ai/claude-agent-sdk';
-import { getSession, setSession, updateLastActivity } from './sessions.js';
+import { query, type CanUseTool, type SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import { getSession, setSession, updateLastActivity, getActiveSessionName } from './sessions.js';
 import { appendToHistory } from './history.js';
-import { log } from './config.js';
-import type { StoredMessage, SessionInfo } from './types.js';
+import { createLogger, type Logger } from './logger.js';
+import { FILE_EDIT_TOOLS, getGatedTools, restrictTools } from './permissions.js';
+import { getGroupSettings } from './projects.js';
+import { getPermittedTools } from './access.js';
+import type { StoredMessage, SessionInfo, AttachmentInfo, Role, QueryUsage } from './types.js';
+import type { ImageInput } from './attachments.js';
 import { truncate, getErrorMessage } from './utils.js';
+import { extractUsage, recordUsage } from './usage.js';
+import { errors, queryDuration, toolUses } from './metrics.js';
 
-/**
- * Default tools available to Claude
- */
-const DEFAULT_TOOLS = [
-  'Read',
-  'Write',
-  'Edit',
-  'Bash',
-  'Glob',
-  'Grep',
-  'WebSearch',
-  'WebFetch',
-] as const;
-
-interface ClaudeQueryParams {
+export interface ClaudeQueryParams {
   groupId: string;
   groupName: string;
   projectPath: string;
@@ -31,6 +23,109 @@ interface ClaudeQueryParams {
   senderName: string;
   senderId: string;
   messageId: string;
+  /** All message IDs when several messages were batched into this prompt */
+  messageIds?: string[];
+  /** Sender's role; only the tools it permits are available to this query */
+  role?: Role;
+  /** Logger carrying the message's correlation ID */
+  logger?: Logger;
+  /** Called for every tool_use block Claude emits */
+  onToolUse?: (toolName: string, input: Record<string, unknown>) => void;
+  /** Aborts the SDK query when signalled (e.g. by !stop) */
+  abortController?: AbortController;
+  /** Permission callback for gated tools; when set, those tools leave allowedTools */
+  canUseTool?: CanUseTool;
+  /** Images passed to Claude as vision input */
+  images?: ImageInput[];
+  /** Attachment metadata recorded in history */
+  attachments?: AttachmentInfo[];
+}
+
+/**
+ * Build the SDK prompt: plain text, or a single user message with image blocks
+ */
+function buildPrompt(
+  message: string,
+  images: ImageInput[],
+  sessionId: string | undefined
+): string | AsyncIterable<SDKUserMessage> {
+  if (images.length === 0) {
+    return message;
+  }
+
+  const userMessage: SDKUserMessage = {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [
+        ...images.map((image) => ({
+          type: 'image' as const,
+          source: { type: 'base64' as const, media_type: image.mediaType, data: image.data },
+        })),
+        { type: 'text' as const, text: message },
+      ],
+    },
+    parent_tool_use_id: null,
+    session_id: sessionId ?? '',
+  };
+
+  return (async function* () {
+    yield userMessage;
+  })();
+}
+
+/**
+ * Options for a text-only query (no tools), e.g. summarizing a conversation
+ */
+export interface TextQueryOptions {
+  cwd: string;
+  model?: string;
+  /** Session to continue */
+  resume?: string;
+  /** Branch off the resumed session instead of adding to it */
+  forkSession?: boolean;
+  abortController?: AbortController;
+}
+
+/**
+ * Ask Claude something that needs no tools and return its answer and session ID
+ *
+ * Nothing is recorded in the history or the session store - that's up to the caller.
+ */
+export async function runTextQuery(
+  prompt: string,
+  options: TextQueryOptions
+): Promise<{ sessionId?: string; result: string; usage?: QueryUsage }> {
+  const { cwd, model, resume, forkSession, abortController } = options;
+  let sessionId: string | undefined;
+  let result = '';
+  let usage: QueryUsage | undefined;
+
+  for await (const msg of query({
+    prompt,
+    options: {
+      cwd,
+      allowedTools: [],
+      permissionMode: 'default',
+      maxTurns: 1,
+      ...(model && { model }),
+      ...(resume && { resume }),
+      ...(forkSession && { forkSession }),
+      ...(abortController && { abortController }),
+    },
+  })) {
+    if (msg.type === 'system' && msg.subtype === 'init') {
+      sessionId = msg.session_id;
+    }
+    if (msg.type === 'result') {
+      usage = extractUsage(msg);
+      if (msg.subtype === 'success') {
+        result = msg.result;
+      }
+    }
+  }
+
+  return { sessionId, result, usage };
 }
 
 /**
@@ -39,16 +134,22 @@ interface ClaudeQueryParams {
  * Handles:
  * - Session management (resume if exists)
  * - History logging (JSONL)
+ * - Cancellation via abortController
  * - Error handling
  */
 export async function handleClaudeQuery(params: ClaudeQueryParams): Promise<string> {
-  const { groupId, groupName, projectPath, message, senderName, senderId, messageId } = params;
+  const {
+    groupId, groupName, projectPath, message, senderName, senderId, messageId, messageIds, role,
+    logger: messageLogger = createLogger({ groupId, groupName, messageId }), onToolUse, abortController, canUseTool, images = [], attachments,
+  } = params;
 
   const existingSession = getSession(groupId);
+  const sessionName = getActiveSessionName(groupId);
 
-  log('debug', `Query for ${groupName}:`, truncate(message));
+  let logger = messageLogger.child({ sessionId: existingSession?.sessionId });
+  logger.debug('Query:', truncate(message));
   if (existingSession) {
-    log('debug', `Resuming session: ${existingSession.sessionId}`);
+    logger.debug(`Resuming session: ${existingSession.sessionId}`);
   }
 
   // Log user message to history
@@ -61,52 +162,91 @@ export async function handleClaudeQuery(params: ClaudeQueryParams): Promise<stri
     sender: senderId,
     senderName,
     content: message,
+    ...(messageIds && messageIds.length > 1 && { messageIds }),
+    ...(attachments?.length && { attachments }),
+    session: sessionName,
   };
   appendToHistory(projectPath, userMessage);
 
+  // Only the group's tools (minus those above the sender's role) are available at all;
+  // gated tools and file edits must go through canUseTool, so the SDK can't auto-allow them
+  const settings = getGroupSettings(projectPath);
+  const gatedTools = canUseTool ? getGatedTools() : [];
+  const permittedTools = role ? getPermittedTools(role, settings.allowedTools) : settings.allowedTools;
+  const deniedTools = settings.allowedTools.filter((tool) => !permittedTools.includes(tool));
+  const allowedTools = permittedTools.filter((tool) => !gatedTools.includes(tool) && !FILE_EDIT_TOOLS.includes(tool));
+
   let sessionId: string | undefined;
   let result = '';
+  let usage: QueryUsage | undefined;
+  let outcome = 'success';
+  const startedAt = Date.now();
 
   try {
     for await (const msg of query({
-      prompt: message,
+      prompt: buildPrompt(message, images, existingSession?.sessionId),
       options: {
         cwd: projectPath,
-        allowedTools: [...DEFAULT_TOOLS],
-        permissionMode: 'acceptEdits',
-        // Resume existing session if available
+        tools: permittedTools,
+        allowedTools,
+        ...(deniedTools.length > 0 && { disallowedTools: deniedTools }),
+        permissionMode: settings.permissionMode,
+        ...(settings.model && { model: settings.model }),
+        ...(abortController && { abortController }),
+        canUseTool: restrictTools(permittedTools, projectPath, canUseTool),
+        // Resume existing session if available (branching off it after !session fork)
         ...(existingSession?.sessionId && { resume: existingSession.sessionId }),
+        ...(existingSession?.fork && { forkSession: true }),
       },
     })) {
       // Capture session ID from init message
       if (msg.type === 'system' && (msg as any).subtype === 'init') {
         sessionId = (msg as any).session_id;
-        log('debug', `Session ID: ${sessionId}`);
+        logger = messageLogger.child({ sessionId });
+        logger.debug(`Session ID: ${sessionId}`);
       }
 
       // Log tool usage
       if (msg.type === 'assistant' && (msg as any).message?.content) {
         for (const block of (msg as any).message.content) {
           if ('name' in block) {
-            log('debug', `Tool: ${block.name}`);
+            logger.debug(`Tool: ${block.name}`);
+            toolUses.inc({ tool: block.name });
+            onToolUse?.(block.name, block.input ?? {});
           }
         }
       }
 
-      // Capture final result
-      if ('result' in msg && typeof msg.result === 'string') {
-        result = msg.result;
+      // Capture final result and what it cost
+      if (msg.type === 'result') {
+        usage = extractUsage(msg);
+        if (msg.subtype === 'success') {
+          result = msg.result;
+        }
       }
     }
 
-    log('info', `[${groupName}] Claude responded (${result.length} chars)`);
+    logger.info(`Claude responded (${result.length} chars)`);
 
   } catch (error) {
     const errorMsg = getErrorMessage(error);
-    log('error', `Claude query failed:`, errorMsg);
+    if (!abortController?.signal.aborted) {
+      logger.error('Claude query failed:', errorMsg);
+      errors.inc({ source: 'claude' });
+    }
     result = `❌ Error: ${errorMsg}`;
+    outcome = 'error';
   }
 
+  // A cancelled query may throw or just end early - record it either way
+  if (abortController?.signal.aborted) {
+    const reason = abortController.signal.reason;
+    logger.info('Claude query cancelled:', reason);
+    result = `⏹️ Cancelled${typeof reason === 'string' ? ` (${reason})` : ''}`;
+    outcome = 'cancelled';
+  }
+  queryDuration.observe({ outcome }, (Date.now() - startedAt) / 1000);
+
   // Update session store
   if (sessionId) {
     const sessionInfo: SessionInfo = {
@@ -114,6 +254,11 @@ export async function handleClaudeQuery(params: ClaudeQueryParams): Promise<stri
       projectPath,
       groupName,
       lastActivity: new Date().toISOString(),
+      // Size of the conversation so far, for the rollover policy
+      turns: (existingSession?.turns ?? 0) + 1,
+      contextChars: (existingSession?.contextChars ?? 0) + message.length + result.length,
+      ...(existingSession?.lineage && { lineage: existingSession.lineage }),
+      ...(existingSession?.rolledOverAt && { rolledOverAt: existingSession.rolledOverAt }),
     };
     setSession(groupId, sessionInfo);
   } else if (existingSession) {
@@ -130,8 +275,15 @@ export async function handleClaudeQuery(params: ClaudeQueryParams): Promise<stri
     sender: 'claude',
     senderName: 'Claude',
     content: result,
+    session: sessionName,
   };
   appendToHistory(projectPath, assistantMessage);
 
+  // Cancelled and failed queries can still have cost something
+  if (usage) {
+    recordUsage(projectPath, { ts: assistantMessage.ts, groupId, messageId, senderId, senderName, kind: 'query', ...usage });
+    logger.debug(`Usage: $${usage.costUsd.toFixed(4)}, ${usage.inputTokens} in / ${usage.outputTokens} out`);
+  }
+
   return result;
 }
@@ -0,0 +1,557 @@
+/**
+ * Chat command system for WhatsClaude
+ *
+ * Messages starting with "!" are handled here instead of being sent
+ * to Claude. Built-in commands are registered below; more can be added
+ * with registerCommand().
+ */
+
+import { relative } from 'path';
+import { formatServerMessageChunks } from './chunker.js';
+import type { Logger } from './logger.js';
+import {
+  archiveSession,
+  forkSession,
+  getActiveSessionName,
+  getArchivedSessions,
+  getSession,
+  listNamedSessions,
+  restoreSession,
+  switchSession,
+} from './sessions.js';
+import { appendToHistory, readHistoryPage, getHistoryCount } from './history.js';
+import { cancelTask } from './tasks.js';
+import { hasRole, recordDenial } from './access.js';
+import { parseDateFilter, parseSearchQuery, searchProject, type SearchQuery, type SearchResult } from './search.js';
+import { exportConversation, parseExportFormat } from './export.js';
+import { getGroupSettings } from './projects.js';
+import { formatCost, getBudgetPeriods, readUsage, summarizeUsage, type UsageTotals } from './usage.js';
+import { truncate, formatDuration, getErrorMessage } from './utils.js';
+import type { ChatHandle, Role } from './types.js';
+
+/**
+ * Prefix that marks a message as a command
+ */
+export const COMMAND_PREFIX = '!';
+
+/**
+ * Bare words that are treated as !stop
+ */
+const STOP_WORDS = ['stop', 'cancel'];
+
+/**
+ * A parsed command invocation
+ */
+export interface ParsedCommand {
+  /** Command name, lowercased, without the prefix */
+  name: string;
+  /** Whitespace-separated arguments */
+  args: string[];
+  /** Everything after the command name, trimmed */
+  rawArgs: string;
+}
+
+/**
+ * Everything a command handler needs to know about the invocation
+ */
+export interface CommandContext {
+  groupId: string;
+  groupName: string;
+  projectPath: string;
+  senderId: string;
+  senderName: string;
+  /** Sender's role in this group */
+  role: Role;
+  /** ID of the message that invoked the command */
+  messageId: string;
+  args: string[];
+  rawArgs: string;
+  chat: ChatHandle;
+  /** Queue status for this group (from getQueueStatus) */
+  queue: { size: number; pending: number };
+  /** Drop messages waiting in this group's queue or batch, returning what was dropped */
+  clearQueue: () => { senderName: string; prompt: string }[];
+  /** Send a server message to the group */
+  reply: (text: string) => Promise<void>;
+  /** Logger carrying the command message's correlation ID */
+  logger: Logger;
+}
+
+/**
+ * A chat command
+ */
+export interface Command {
+  name: string;
+  /** One-line description shown by !help */
+  description: string;
+  /** Argument syntax shown by !help, e.g. "[N]" */
+  usage?: string;
+  aliases?: string[];
+  /** Least privileged role allowed to run the command (default: readonly) */
+  minRole?: Role;
+  handler: (ctx: CommandContext) => Promise<void>;
+}
+
+// Command registry (name or alias → command)
+const commands: Map<string, Command> = new Map();
+
+/**
+ * Register a command (replaces any existing command with the same name or alias)
+ */
+export function registerCommand(command: Command): void {
+  for (const name of [command.name, ...(command.aliases ?? [])]) {
+    commands.set(name.toLowerCase(), command);
+  }
+}
+
+/**
+ * Look up a command by name or alias
+ */
+export function getCommand(name: string): Command | undefined {
+  return commands.get(name.toLowerCase());
+}
+
+/**
+ * Get all registered commands (without alias duplicates)
+ */
+export function getCommands(): Command[] {
+  return [...new Set(commands.values())];
+}
+
+/**
+ * Parse a message as a command
+ *
+ * A bare "stop" or "cancel" message is parsed as !stop.
+ *
+ * @returns The parsed command, or null if the message isn't a command
+ */
+export function parseCommand(text: string): ParsedCommand | null {
+  const trimmed = text.trim();
+  if (STOP_WORDS.includes(trimmed.toLowerCase())) {
+    return { name: 'stop', args: [], rawArgs: '' };
+  }
+  if (!trimmed.startsWith(COMMAND_PREFIX)) {
+    return null;
+  }
+
+  const match = trimmed.slice(COMMAND_PREFIX.length).match(/^(\S+)\s*([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const rawArgs = match[2].trim();
+  return {
+    name: match[1].toLowerCase(),
+    args: rawArgs ? rawArgs.split(/\s+/) : [],
+    rawArgs,
+  };
+}
+
+/**
+ * Check the sender's role, refusing and recording the action if it's too low
+ *
+ * @returns true if the sender may go ahead
+ */
+async function checkRole(
+  ctx: Omit<CommandContext, 'args' | 'rawArgs'>,
+  action: string,
+  minRole: Role
+): Promise<boolean> {
+  if (hasRole(ctx.role, minRole)) {
+    return true;
+  }
+  const reason = `${action} requires the ${minRole} role (${ctx.senderName} is ${ctx.role})`;
+  recordDenial({ ...ctx, reason });
+  await ctx.reply(`🚫 ${reason}.`);
+  return false;
+}
+
+/**
+ * Run a parsed command
+ *
+ * Unknown commands get a hint to use !help; commands above the
+ * sender's role are refused and recorded in history.
+ */
+export async function executeCommand(
+  parsed: ParsedCommand,
+  ctx: Omit<CommandContext, 'args' | 'rawArgs'>
+): Promise<void> {
+  const command = getCommand(parsed.name);
+  if (!command) {
+    await ctx.reply(`❓ Unknown command "${COMMAND_PREFIX}${parsed.name}". Send ${COMMAND_PREFIX}help for a list.`);
+    return;
+  }
+
+  if (!(await checkRole(ctx, `${COMMAND_PREFIX}${command.name}`, command.minRole ?? 'readonly'))) {
+    return;
+  }
+
+  ctx.logger.info(`${ctx.senderName} ran ${COMMAND_PREFIX}${command.name}`);
+  await command.handler({ ...ctx, args: parsed.args, rawArgs: parsed.rawArgs });
+}
+
+/**
+ * Build a reply function that sends server messages to a chat
+ *
+ * Long replies (e.g. !history 50) are split like Claude's responses.
+ */
+export function createReply(chat: ChatHandle): (text: string) => Promise<void> {
+  return async (text) => {
+    for (const chunk of formatServerMessageChunks(text)) {
+      await chat.sendMessage(chunk);
+    }
+  };
+}
+
+// ============================================================================
+// Built-in commands
+// ============================================================================
+
+const DEFAULT_HISTORY_COUNT = 5;
+const MAX_HISTORY_COUNT = 50;
+
+/**
+ * Valid names for !session fork
+ */
+const SESSION_NAME_PATTERN = /^[\w-]{1,32}$/;
+
+registerCommand({
+  name: 'new',
+  minRole: 'contributor',
+  description: 'Start a fresh Claude session (project files are kept)',
+  handler: async (ctx) => {
+    const archived = archiveSession(ctx.groupId, `cleared by ${ctx.senderName}`, ctx.logger);
+    await ctx.reply(
+      archived
+        ? `🆕 Session cleared. The next message starts a fresh conversation. Send ${COMMAND_PREFIX}restore to undo.`
+        : '🆕 No active session. The next message starts a fresh conversation.'
+    );
+  },
+});
+
+registerCommand({
+  name: 'sessions',
+  description: 'List archived sessions that can be restored',
+  handler: async (ctx) => {
+    const archived = getArchivedSessions(ctx.groupId);
+    if (archived.length === 0) {
+      await ctx.reply('🗄️ No archived sessions.');
+      return;
+    }
+
+    const lines = archived.map((s, i) =>
+      `${i + 1}. ${s.sessionId.slice(0, 8)} - last active ${s.lastActivity.slice(0, 16).replace('T', ' ')} (${s.reason})`
+    );
+    await ctx.reply(`🗄️ Archived sessions (most recent first):\n\n${lines.join('\n')}\n\nSend ${COMMAND_PREFIX}restore [N] to continue one.`);
+  },
+});
+
+registerCommand({
+  name: 'restore',
+  minRole: 'contributor',
+  description: 'Continue an archived session (default: the most recent)',
+  usage: '[N]',
+  handler: async (ctx) => {
+    const number = ctx.args[0] ? parseInt(ctx.args[0], 10) : 1;
+    if (isNaN(number) || number < 1) {
+      await ctx.reply(`⚠️ Usage: ${COMMAND_PREFIX}restore [N]`);
+      return;
+    }
+    if (ctx.queue.pending > 0) {
+      await ctx.reply(`⚠️ A task is running. Wait for it or send ${COMMAND_PREFIX}stop first.`);
+      return;
+    }
+
+    const restored = restoreSession(ctx.groupId, number - 1);
+    if (!restored) {
+      await ctx.reply(`⚠️ No archived session #${number}. Send ${COMMAND_PREFIX}sessions for a list.`);
+      return;
+    }
+    await ctx.reply(`♻️ Restored session ${restored.sessionId.slice(0, 8)}. The next message continues that conversation.`);
+  },
+});
+
+registerCommand({
+  name: 'status',
+  description: 'Show queue and session status',
+  handler: async (ctx) => {
+    const session = getSession(ctx.groupId);
+    const lines = [
+      `📊 Status for "${ctx.groupName}"`,
+      `Queue: ${ctx.queue.pending} running, ${ctx.queue.size} waiting`,
+      session
+        ? `Session "${getActiveSessionName(ctx.groupId)}": ${session.sessionId} (last active ${session.lastActivity})`
+        : 'Session: none (next message starts fresh)',
+      ...(session ? [`Size: ${session.turns ?? 0} turn(s), ${session.contextChars ?? 0} chars`] : []),
+      ...(session?.lineage?.length
+        ? [`Rolled over from ${session.lineage.length} earlier session(s), last ${session.lineage[session.lineage.length - 1]}`]
+        : []),
+      `History: ${await getHistoryCount(ctx.projectPath)} message(s)`,
+    ];
+    await ctx.reply(lines.join('\n'));
+  },
+});
+
+registerCommand({
+  name: 'history',
+  description: `Show the last N messages (default ${DEFAULT_HISTORY_COUNT}), or an earlier page`,
+  usage: '[N] [page]',
+  handler: async (ctx) => {
+    const requested = ctx.args[0] ? parseInt(ctx.args[0], 10) : DEFAULT_HISTORY_COUNT;
+    const page = ctx.args[1] ? parseInt(ctx.args[1], 10) : 1;
+    if (isNaN(requested) || requested < 1 || isNaN(page) || page < 1) {
+      await ctx.reply(`⚠️ Usage: ${COMMAND_PREFIX}history [N] [page]`);
+      return;
+    }
+
+    const count = Math.min(requested, MAX_HISTORY_COUNT);
+    const { messages, hasMore } = await readHistoryPage(ctx.projectPath, { offset: (page - 1) * count, limit: count });
+    if (messages.length === 0) {
+      await ctx.reply(page === 1 ? '📜 No history yet.' : `📜 No messages on page ${page}.`);
+      return;
+    }
+
+    const lines = messages.map((m) => `[${m.ts.slice(0, 16).replace('T', ' ')}] ${m.senderName}: ${truncate(m.content, 200)}`);
+    const title = page === 1 ? `Last ${messages.length} message(s)` : `Page ${page} (${messages.length} message(s))`;
+    const more = hasMore ? `\n\nOlder: ${COMMAND_PREFIX}history ${count} ${page + 1}` : '';
+    await ctx.reply(`📜 ${title}:\n\n${lines.join('\n')}${more}`);
+  },
+});
+
+registerCommand({
+  name: 'search',
+  description: 'Search this group\'s history (filters: sender:, role:, since:, until:, /regex/)',
+  usage: '<words> [filters]',
+  handler: async (ctx) => {
+    if (!ctx.rawArgs) {
+      await ctx.reply(`⚠️ Usage: ${COMMAND_PREFIX}search <words> [sender:name] [role:user|assistant] [since:YYYY-MM-DD] [until:YYYY-MM-DD] [/regex/]`);
+      return;
+    }
+
+    let query: SearchQuery;
+    try {
+      query = parseSearchQuery(ctx.rawArgs);
+    } catch (error) {
+      await ctx.reply(`⚠️ ${getErrorMessage(error)}`);
+      return;
+    }
+
+    let results: SearchResult[];
+    try {
+      results = searchProject(ctx.projectPath, { ...query, limit: Math.min(query.limit ?? 10, MAX_HISTORY_COUNT) });
+    } catch (error) {
+      await ctx.reply(`⚠️ ${getErrorMessage(error)}`);
+      return;
+    }
+    if (results.length === 0) {
+      await ctx.reply(`🔍 No messages match "${ctx.rawArgs}".`);
+      return;
+    }
+
+    const lines = results.map(({ message: m }) =>
+      `[${m.ts.slice(0, 16).replace('T', ' ')}] ${m.senderName}: ${truncate(m.content, 200)}`
+    );
+    await ctx.reply(`🔍 ${results.length} match(es), newest first:\n\n${lines.join('\n')}`);
+  },
+});
+
+registerCommand({
+  name: 'export',
+  minRole: 'contributor',
+  description: 'Save the conversation as Markdown or HTML in the project\'s exports/ folder',
+  usage: '[md|html] [since YYYY-MM-DD] [until YYYY-MM-DD]',
+  handler: async (ctx) => {
+    const [formatArg = 'md', sinceArg, untilArg] = ctx.args;
+    const format = parseExportFormat(formatArg);
+    if (!format) {
+      await ctx.reply(`⚠️ Usage: ${COMMAND_PREFIX}export [md|html] [since YYYY-MM-DD] [until YYYY-MM-DD]`);
+      return;
+    }
+
+    let since: Date | undefined;
+    let until: Date | undefined;
+    try {
+      since = sinceArg ? parseDateFilter(sinceArg, false) : undefined;
+      until = untilArg ? parseDateFilter(untilArg, true) : undefined;
+    } catch (error) {
+      await ctx.reply(`⚠️ ${getErrorMessage(error)}`);
+      return;
+    }
+
+    const { path, messageCount } = await exportConversation(ctx.projectPath, { format, since, until, title: ctx.groupName });
+    await ctx.reply(`📤 Exported ${messageCount} message(s) to ${relative(ctx.projectPath, path)}`);
+  },
+});
+
+/**
+ * Format usage totals as "$1.23 · 4 queries · 12.3k in / 1.2k out"
+ */
+function formatUsageTotals(totals: UsageTotals): string {
+  const k = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+  const input = totals.inputTokens + totals.cacheReadTokens + totals.cacheCreationTokens;
+  return `${formatCost(totals.costUsd)} · ${totals.queries} quer${totals.queries === 1 ? 'y' : 'ies'} · ${k(input)} in / ${k(totals.outputTokens)} out`;
+}
+
+registerCommand({
+  name: 'usage',
+  description: 'Show token usage and cost for this group (today, this month, all time)',
+  handler: async (ctx) => {
+    const records = readUsage(ctx.projectPath);
+    if (records.length === 0) {
+      await ctx.reply('💰 No usage recorded yet.');
+      return;
+    }
+
+    const { day, month } = getBudgetPeriods();
+    const budget = getGroupSettings(ctx.projectPath).budget;
+    const thisMonth = records.filter((r) => r.ts >= month.toISOString());
+    const today = summarizeUsage(thisMonth.filter((r) => r.ts >= day.toISOString())).total;
+    const monthly = summarizeUsage(thisMonth);
+    const ofBudget = (spent: number, limit: number | undefined) =>
+      limit ? ` (${Math.round((spent / limit) * 100)}% of ${formatCost(limit)})` : '';
+
+    const lines = [
+      `💰 Usage for "${ctx.groupName}"`,
+      `Today: ${formatUsageTotals(today)}${ofBudget(today.costUsd, budget?.dailyUsd)}`,
+      `This month: ${formatUsageTotals(monthly.total)}${ofBudget(monthly.total.costUsd, budget?.monthlyUsd)}`,
+      `All time: ${formatUsageTotals(summarizeUsage(records).total)}`,
+    ];
+    if (monthly.bySender.length > 0) {
+      lines.push('', 'This month by sender:');
+      for (const [senderName, totals] of monthly.bySender.slice(0, 10)) {
+        lines.push(`• ${senderName}: ${formatUsageTotals(totals)}`);
+      }
+    }
+    await ctx.reply(lines.join('\n'));
+  },
+});
+
+registerCommand({
+  name: 'session',
+  description: 'Manage named sessions: list, fork <name>, switch <name>',
+  usage: '[list|fork|switch] [name]',
+  handler: async (ctx) => {
+    const [subcommand = 'list', name] = ctx.args;
+    const usage = `⚠️ Usage: ${COMMAND_PREFIX}session list | fork <name> | switch <name>`;
+
+    switch (subcommand.toLowerCase()) {
+      case 'list': {
+        const lines = listNamedSessions(ctx.groupId).map(({ name: sessionName, active, session }) => {
+          const marker = active ? '▶️' : '•';
+          const detail = session
+            ? `last active ${session.lastActivity.slice(0, 16).replace('T', ' ')}`
+            : 'new (starts with the next message)';
+          return `${marker} ${sessionName} - ${detail}`;
+        });
+        await ctx.reply(`🌿 Sessions:\n\n${lines.join('\n')}`);
+        return;
+      }
+
+      case 'fork':
+      case 'switch': {
+        if (!(await checkRole(ctx, `${COMMAND_PREFIX}session ${subcommand}`, 'contributor'))) {
+          return;
+        }
+        if (!name) {
+          await ctx.reply(usage);
+          return;
+        }
+        if (ctx.queue.pending > 0) {
+          await ctx.reply(`⚠️ A task is running. Wait for it or send ${COMMAND_PREFIX}stop first.`);
+          return;
+        }
+
+        const existing = listNamedSessions(ctx.groupId).find((s) => s.name === name);
+        if (subcommand.toLowerCase() === 'fork') {
+          if (!SESSION_NAME_PATTERN.test(name)) {
+            await ctx.reply('⚠️ Session names may only use letters, digits, "-" and "_" (up to 32 characters).');
+            return;
+          }
+          if (existing) {
+            await ctx.reply(`⚠️ Session "${name}" already exists. Use ${COMMAND_PREFIX}session switch ${name}.`);
+            return;
+          }
+          const from = getActiveSessionName(ctx.groupId);
+          const forked = forkSession(ctx.groupId, name);
+          await ctx.reply(
+            forked
+              ? `🌿 Forked "${from}" into "${name}". The next message continues from here; "${from}" is unchanged.`
+              : `🌿 Started session "${name}". The next message starts a fresh conversation.`
+          );
+          return;
+        }
+
+        if (existing?.active) {
+          await ctx.reply(`🌿 Already in session "${name}".`);
+          return;
+        }
+        if (!switchSession(ctx.groupId, name)) {
+          await ctx.reply(`⚠️ No session "${name}". Send ${COMMAND_PREFIX}session list to see them.`);
+          return;
+        }
+        await ctx.reply(`🌿 Switched to session "${name}".`);
+        return;
+      }
+
+      default:
+        await ctx.reply(usage);
+    }
+  },
+});
+
+registerCommand({
+  name: 'stop',
+  aliases: ['cancel'],
+  minRole: 'contributor',
+  description: 'Stop the running task ("all" also drops queued messages)',
+  usage: '[all]',
+  handler: async (ctx) => {
+    const clearQueued = ctx.args[0]?.toLowerCase() === 'all';
+    const dropped = clearQueued ? ctx.clearQueue() : [];
+    const task = cancelTask(ctx.groupId, `stopped by ${ctx.senderName}`);
+
+    // The running task records its own cancellation; dropped messages never reach Claude
+    if (dropped.length > 0) {
+      appendToHistory(ctx.projectPath, {
+        id: `dropped-${ctx.messageId}`,
+        ts: new Date().toISOString(),
+        groupId: ctx.groupId,
+        groupName: ctx.groupName,
+        role: 'system',
+        sender: ctx.senderId,
+        senderName: ctx.senderName,
+        content: [
+          `⏹️ ${ctx.senderName} dropped ${dropped.length} queued message(s) with ${COMMAND_PREFIX}stop all:`,
+          ...dropped.map((m) => `- ${m.senderName}: "${truncate(m.prompt, 200)}"`),
+        ].join('\n'),
+      });
+    }
+
+    const lines: string[] = [];
+    if (task) {
+      const elapsed = formatDuration(Date.now() - task.startedAt);
+      lines.push(`⏹️ Stopped ${task.senderName}'s task after ${elapsed}: "${truncate(task.prompt, 100)}"`);
+    } else {
+      lines.push('⏹️ Nothing is running.');
+    }
+    if (clearQueued) {
+      lines.push(`Dropped ${dropped.length} queued message(s).`);
+    } else if (ctx.queue.size > 0) {
+      lines.push(`${ctx.queue.size} queued message(s) will still run. Use ${COMMAND_PREFIX}stop all to drop them.`);
+    }
+    await ctx.reply(lines.join('\n'));
+  },
+});
+
+registerCommand({
+  name: 'help',
+  description: 'List the commands you can run',
+  handler: async (ctx) => {
+    const available = getCommands().filter((c) => hasRole(ctx.role, c.minRole ?? 'readonly'));
+    const lines = available.map((c) => {
+      const usage = c.usage ? ` ${c.usage}` : '';
+      return `${COMMAND_PREFIX}${c.name}${usage} - ${c.description}`;
+    });
+    await ctx.reply(`📖 Commands:\n\n${lines.join('\n')}`);
+  },
+});
@@ -3,8 +3,11 @@
  */
 
 import { config as loadEnv } from 'dotenv';
-import { homedir } from 'os';
-import type { Config } from './types.js';
+import { existsSync, readFileSync } from 'fs';
+import { homedir, hostname } from 'os';
+import { resolve } from 'path';
+import { arrayOf, boolean, number, object, oneOf, recordOf, regex, string } from './schema.js';
+import type { ApprovalRule, Config, GroupSettings } from './types.js';
 
 // Load environment variables from .env file
 loadEnv();
@@ -19,25 +22,331 @@ export function expandHome(path: string): string {
   return path;
 }
 
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+const LOG_FORMATS = ['text', 'json'] as const;
+const TRANSPORTS = ['whatsapp', 'terminal'] as const;
+const PERMISSION_MODES = ['default', 'acceptEdits', 'plan'] as const;
+const ROLES = ['owner', 'contributor', 'readonly'] as const;
+
 /**
- * Parse log level from string, with fallback to 'info'
+ * Parse log level from string, with fallback
  */
-function parseLogLevel(level: string | undefined): Config['logLevel'] {
-  const validLevels: Config['logLevel'][] = ['debug', 'info', 'warn', 'error'];
+function parseLogLevel(level: string | undefined, fallback: Config['logLevel']): Config['logLevel'] {
   const parsed = level?.toLowerCase() as Config['logLevel'];
-  return validLevels.includes(parsed) ? parsed : 'info';
+  return LOG_LEVELS.includes(parsed) ? parsed : fallback;
+}
+
+/**
+ * Parse a number of seconds from string into milliseconds, with fallback (in ms)
+ */
+function parseSeconds(value: string | undefined, fallbackMs: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed * 1000 : fallbackMs;
+}
+
+/**
+ * Parse a number of hours from string into milliseconds, with fallback (in ms)
+ */
+function parseHours(value: string | undefined, fallbackMs: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed * 3600 * 1000 : fallbackMs;
+}
+
+/**
+ * Parse a non-negative integer from string, with fallback
+ */
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Parse transport name from string, with fallback
+ */
+function parseTransport(transport: string | undefined, fallback: Config['transport']): Config['transport'] {
+  const parsed = transport?.toLowerCase() as Config['transport'];
+  return TRANSPORTS.includes(parsed) ? parsed : fallback;
+}
+
+/**
+ * Parse a comma-separated list from string (undefined if unset)
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Alert email settings from ALERT_EMAIL_TO / ALERT_EMAIL_FROM / SMTP_HOST / SMTP_PORT and the file
+ */
+function parseAlertEmail(email: Partial<NonNullable<Config['alerts']['email']>> | undefined): Config['alerts']['email'] {
+  const to = parseList(process.env.ALERT_EMAIL_TO) ?? email?.to ?? [];
+  if (to.length === 0) {
+    return undefined;
+  }
+  return {
+    to,
+    from: process.env.ALERT_EMAIL_FROM || email?.from || `whatsclaude@${hostname()}`,
+    host: process.env.SMTP_HOST || email?.host || '127.0.0.1',
+    port: parseCount(process.env.SMTP_PORT, email?.port ?? 25),
+  };
+}
+
+/**
+ * Tools available to Claude unless a config file or group overrides them
+ */
+export const DEFAULT_TOOLS = [
+  'Read',
+  'Write',
+  'Edit',
+  'Bash',
+  'Glob',
+  'Grep',
+  'WebSearch',
+  'WebFetch',
+];
+
+/**
+ * Tool uses that need approval from the group before they run
+ */
+const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  { tool: 'Bash', pattern: '\\brm\\s', description: 'delete files' },
+  { tool: 'Bash', pattern: '\\bgit\\s+push\\b', description: 'push to a git remote' },
+  { tool: 'Bash', pattern: '\\b(curl|wget|ssh|scp)\\b', description: 'access the network' },
+  { tool: 'Bash', pattern: '\\bsudo\\b', description: 'run a command as root' },
+  { tool: 'WebFetch', description: 'fetch a web page' },
+];
+
+/**
+ * Settings a group can override in <projectsRoot>/.whatsclaude-groups/<project>.json
+ */
+const groupSettingsShape = {
+  allowedTools: arrayOf(string()),
+  model: string(),
+  maxQueueSize: number({ min: 1, integer: true }),
+  permissionMode: oneOf(PERMISSION_MODES),
+  members: recordOf(oneOf(ROLES)),
+  budget: object({
+    dailyUsd: number({ min: 0 }),
+    monthlyUsd: number({ min: 0 }),
+  }),
+};
+
+/**
+ * Validate per-group settings
+ */
+export const validateGroupSettings = object(groupSettingsShape);
+
+/**
+ * Validate the config file (every setting is optional)
+ */
+const validateConfigFile = object({
+  ...groupSettingsShape,
+  projectsRoot: string(),
+  groupPrefix: string(),
+  maxMessageLength: number({ min: 100, integer: true }),
+  logLevel: oneOf(LOG_LEVELS),
+  transport: oneOf(TRANSPORTS),
+  progressThresholdMs: number({ min: 0 }),
+  progressIntervalMs: number({ min: 0 }),
+  batchWindowMs: number({ min: 0 }),
+  sessionIdleMs: number({ min: 0 }),
+  sessionSweepIntervalMs: number({ min: 1000 }),
+  historyMaxBytes: number({ min: 0, integer: true }),
+  historyMaxAgeMs: number({ min: 0 }),
+  rollover: object({
+    maxTurns: number({ min: 0, integer: true }),
+    maxContextChars: number({ min: 0, integer: true }),
+  }),
+  approval: object({
+    enabled: boolean(),
+    timeoutMs: number({ min: 1000 }),
+    rules: arrayOf(object(
+      { tool: string(), pattern: regex(), description: string() },
+      { required: ['tool', 'description'] }
+    )),
+  }),
+  http: object({
+    enabled: boolean(),
+    host: string(),
+    port: number({ min: 0, max: 65535, integer: true }),
+    disconnectedGraceMs: number({ min: 0 }),
+    dashboardToken: string(),
+    allowedHosts: arrayOf(string()),
+  }),
+  reconnect: object({
+    initialDelayMs: number({ min: 0 }),
+    maxDelayMs: number({ min: 0 }),
+    attemptTimeoutMs: number({ min: 1000 }),
+    maxAttempts: number({ min: 1, integer: true }),
+    cooldownMs: number({ min: 0 }),
+  }),
+  alerts: object({
+    command: string(),
+    webhookUrl: string(),
+    email: object({
+      to: arrayOf(string()),
+      from: string(),
+      host: string(),
+      port: number({ min: 1, max: 65535, integer: true }),
+    }, { required: ['to'] }),
+  }),
+  logging: object({
+    format: oneOf(LOG_FORMATS),
+    file: string(),
+    maxBytes: number({ min: 0, integer: true }),
+    maxFiles: number({ min: 1, integer: true }),
+  }),
+  transcription: object({
+    provider: oneOf(['whisper', 'none'] as const),
+    command: string(),
+    model: string(),
+    language: string(),
+  }),
+});
+
+/**
+ * Contents of the config file, as validated
+ */
+type ConfigFile = Partial<Omit<Config, 'rollover' | 'approval' | 'transcription' | 'http' | 'reconnect' | 'alerts' | 'logging'>> & {
+  rollover?: Partial<Config['rollover']>;
+  http?: Partial<Config['http']>;
+  reconnect?: Partial<Config['reconnect']>;
+  alerts?: Omit<Config['alerts'], 'email'> & { email?: Partial<NonNullable<Config['alerts']['email']>> };
+  logging?: Partial<Config['logging']>;
+  approval?: Partial<Config['approval']>;
+  transcription?: Partial<Config['transcription']>;
+};
+
+/**
+ * Path of the config file (override with WHATSCLAUDE_CONFIG)
+ */
+export const CONFIG_FILE = resolve(process.env.WHATSCLAUDE_CONFIG || 'whatsclaude.config.json');
+
+/**
+ * Problems found while loading the config file - startup fails if any
+ */
+export const configErrors: string[] = [];
+
+/**
+ * Read and validate a JSON settings file
+ *
+ * @returns The parsed settings, or undefined if the file is missing or invalid (errors are collected)
+ */
+export function readSettingsFile<T>(
+  path: string,
+  validate: (value: unknown, path: string, errors: string[]) => boolean,
+  errors: string[]
+): T | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    errors.push(`${path}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+    return undefined;
+  }
+
+  const problems: string[] = [];
+  if (!validate(parsed, '', problems)) {
+    errors.push(...problems.map((problem) => `${path}: ${problem}`));
+    return undefined;
+  }
+  return parsed as T;
 }
 
+const file: ConfigFile = readSettingsFile<ConfigFile>(CONFIG_FILE, validateConfigFile, configErrors) ?? {};
+
 /**
- * Application configuration loaded from environment
+ * Application configuration
+ *
+ * Built from defaults, then the config file, then environment variables.
  */
 export const config: Config = {
-  projectsRoot: expandHome(process.env.PROJECTS_ROOT || '~/claude-projects'),
-  groupPrefix: 'Claude:',
-  maxQueueSize: 1,
-  logLevel: parseLogLevel(process.env.LOG_LEVEL),
+  projectsRoot: expandHome(process.env.PROJECTS_ROOT || file.projectsRoot || '~/claude-projects'),
+  groupPrefix: file.groupPrefix ?? 'Claude:',
+  maxQueueSize: file.maxQueueSize ?? 1,
+  maxMessageLength: file.maxMessageLength ?? 3000,
+  progressThresholdMs: parseSeconds(process.env.PROGRESS_THRESHOLD_SECONDS, file.progressThresholdMs ?? 30000),
+  progressIntervalMs: file.progressIntervalMs ?? 30000,
+  batchWindowMs: parseSeconds(process.env.BATCH_WINDOW_SECONDS, file.batchWindowMs ?? 3000),
+  sessionIdleMs: parseHours(process.env.SESSION_IDLE_HOURS, file.sessionIdleMs ?? 7 * 24 * 3600 * 1000),
+  sessionSweepIntervalMs: file.sessionSweepIntervalMs ?? 10 * 60 * 1000,
+  historyMaxBytes: file.historyMaxBytes ?? 5 * 1024 * 1024,
+  historyMaxAgeMs: file.historyMaxAgeMs ?? 30 * 24 * 3600 * 1000,
+  rollover: {
+    maxTurns: parseCount(process.env.SESSION_MAX_TURNS, file.rollover?.maxTurns ?? 100),
+    maxContextChars: file.rollover?.maxContextChars ?? 400_000,
+  },
+  allowedTools: file.allowedTools ?? DEFAULT_TOOLS,
+  model: file.model,
+  permissionMode: file.permissionMode ?? 'acceptEdits',
+  members: file.members,
+  budget: file.budget,
+  approval: {
+    enabled: process.env.REQUIRE_APPROVAL
+      ? process.env.REQUIRE_APPROVAL !== 'false'
+      : file.approval?.enabled ?? true,
+    timeoutMs: parseSeconds(process.env.APPROVAL_TIMEOUT_SECONDS, file.approval?.timeoutMs ?? 120000),
+    rules: file.approval?.rules ?? DEFAULT_APPROVAL_RULES,
+  },
+  transcription: {
+    provider: process.env.TRANSCRIBER
+      ? (process.env.TRANSCRIBER.toLowerCase() === 'whisper' ? 'whisper' : 'none')
+      : file.transcription?.provider ?? 'none',
+    command: process.env.WHISPER_COMMAND || file.transcription?.command || 'whisper',
+    model: process.env.WHISPER_MODEL || file.transcription?.model || 'base',
+    language: process.env.WHISPER_LANGUAGE || file.transcription?.language,
+  },
+  http: {
+    // Setting HTTP_PORT turns the server on
+    enabled: process.env.HTTP_PORT ? true : file.http?.enabled ?? false,
+    host: process.env.HTTP_HOST || file.http?.host || '127.0.0.1',
+    port: parseCount(process.env.HTTP_PORT, file.http?.port ?? 8787),
+    disconnectedGraceMs: file.http?.disconnectedGraceMs ?? 5 * 60 * 1000,
+    dashboardToken: process.env.HTTP_DASHBOARD_TOKEN || file.http?.dashboardToken,
+    allowedHosts: parseList(process.env.HTTP_ALLOWED_HOSTS) ?? file.http?.allowedHosts ?? [],
+  },
+  reconnect: {
+    initialDelayMs: file.reconnect?.initialDelayMs ?? 5000,
+    maxDelayMs: file.reconnect?.maxDelayMs ?? 5 * 60 * 1000,
+    attemptTimeoutMs: file.reconnect?.attemptTimeoutMs ?? 2 * 60 * 1000,
+    maxAttempts: file.reconnect?.maxAttempts ?? 10,
+    cooldownMs: file.reconnect?.cooldownMs ?? 30 * 60 * 1000,
+  },
+  alerts: {
+    command: process.env.ALERT_COMMAND || file.alerts?.command,
+    webhookUrl: process.env.ALERT_WEBHOOK_URL || file.alerts?.webhookUrl,
+    email: parseAlertEmail(file.alerts?.email),
+  },
+  logLevel: parseLogLevel(process.env.LOG_LEVEL, file.logLevel ?? 'info'),
+  logging: {
+    format: process.env.LOG_FORMAT
+      ? (process.env.LOG_FORMAT.toLowerCase() === 'json' ? 'json' : 'text')
+      : file.logging?.format ?? 'text',
+    file: process.env.LOG_FILE ? expandHome(process.env.LOG_FILE) : file.logging?.file && expandHome(file.logging.file),
+    maxBytes: file.logging?.maxBytes ?? 10 * 1024 * 1024,
+    maxFiles: file.logging?.maxFiles ?? 5,
+  },
+  transport: parseTransport(process.env.TRANSPORT, file.transport ?? 'whatsapp'),
 };
 
+/**
+ * Get a group's effective settings: config defaults with the group's overrides applied
+ */
+export function resolveGroupSettings(overrides: Partial<GroupSettings> = {}): GroupSettings {
+  return {
+    allowedTools: overrides.allowedTools ?? config.allowedTools,
+    model: overrides.model ?? config.model,
+    maxQueueSize: overrides.maxQueueSize ?? config.maxQueueSize,
+    permissionMode: overrides.permissionMode ?? config.permissionMode,
+    members: overrides.members ?? config.members,
+    budget: overrides.budget ?? config.budget,
+  };
+}
+
 /**
  * Prefix for all bot responses - used to identify and filter Claude's own messages
  */
@@ -63,23 +372,3 @@ export function formatBotResponse(message: string): string {
 export function formatServerMessage(message: string): string {
   return `${SERVER_PREFIX}${message}`;
 }
-
-/**
- * Log a message if the level is high enough
- */
-export function log(level: Config['logLevel'], ...args: unknown[]): void {
-  const levels: Config['logLevel'][] = ['debug', 'info', 'warn', 'error'];
-  const currentIndex = levels.indexOf(config.logLevel);
-  const messageIndex = levels.indexOf(level);
-
-  if (messageIndex >= currentIndex) {
-    const prefix = `[${level.toUpperCase()}]`;
-    if (level === 'error') {
-      console.error(prefix, ...args);
-    } else if (level === 'warn') {
-      console.warn(prefix, ...args);
-    } else {
-      console.log(prefix, ...args);
-    }
-  }
-}
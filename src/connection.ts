@@ -0,0 +1,39 @@
+/**
+ * Connection state tracking for transports
+ *
+ * Transports report status changes here; the health endpoints read them.
+ */
+
+import { createLogger } from './logger.js';
+import type { ConnectionState, ConnectionStatus } from './types.js';
+
+export interface ConnectionTracker {
+  get(): ConnectionState;
+  /** Record a status change (detail replaces the previous detail) */
+  set(status: ConnectionStatus, detail?: string): void;
+}
+
+/**
+ * Create a tracker starting in the 'starting' state
+ */
+export function createConnectionTracker(name: string): ConnectionTracker {
+  const logger = createLogger({ transport: name });
+  let state: ConnectionState = { status: 'starting', since: new Date().toISOString() };
+
+  return {
+    get: () => ({ ...state }),
+    set: (status, detail) => {
+      const now = new Date().toISOString();
+      if (status !== state.status) {
+        logger.debug(`Connection ${state.status} → ${status}${detail ? ` (${detail})` : ''}`);
+      }
+      const lastReadyAt = status === 'ready' ? now : state.lastReadyAt;
+      state = {
+        status,
+        since: status === state.status ? state.since : now,
+        ...(detail && { detail }),
+        ...(lastReadyAt && { lastReadyAt }),
+      };
+    },
+  };
+}
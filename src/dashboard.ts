@@ -0,0 +1,363 @@
+/**
+ * Web dashboard for WhatsClaude
+ *
+ * A single page at /dashboard on the HTTP server, backed by a small JSON API:
+ * - GET /api/groups: registered groups with their session, running task and queue
+ * - GET /api/history?project=<name>&page=<n>: a page of a project's history, newest first
+ * - POST /api/reset-session?project=<name>: archive the group's session (like !new)
+ * - POST /api/cancel?project=<name>[&task=<id>]: drop a queued task, or stop the running one
+ *
+ * With http.dashboardToken set, the API needs "Authorization: Bearer <token>"
+ * (the page reads it from #token=... in its URL). A server bound to anything
+ * but localhost refuses the API until a token is set. Actions also need a
+ * JSON content type, which a browser won't send cross-site without a CORS
+ * preflight - and the server doesn't answer those.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { join } from 'path';
+import { config } from './config.js';
+import { createLogger } from './logger.js';
+import { isLoopbackHost, registerRoute, type HttpResponse, type RouteContext } from './http.js';
+import { readHistoryPage } from './history.js';
+import { cancelQueuedTask, getQueuedTasks, notifyGroup, type QueuedTask } from './router.js';
+import { archiveSession, getActiveSessionName, getArchivedSessions, getRegisteredGroups, getSession } from './sessions.js';
+import { cancelTask, getActiveTask } from './tasks.js';
+import { truncate } from './utils.js';
+import type { SessionInfo } from './types.js';
+
+/**
+ * History messages per page
+ */
+export const HISTORY_PAGE_SIZE = 50;
+
+/**
+ * A group as listed on the dashboard
+ */
+export interface DashboardGroup {
+  projectName: string;
+  groupId: string;
+  groupName: string;
+  session?: SessionInfo & { name: string };
+  archivedSessions: number;
+  running?: { senderName: string; prompt: string; startedAt: string };
+  waiting: QueuedTask[];
+}
+
+interface DashboardProject {
+  projectName: string;
+  groupId: string;
+  projectPath: string;
+  groupName: string;
+}
+
+/**
+ * List every registered group with its session and queue
+ */
+export function listGroups(): DashboardGroup[] {
+  return Object.entries(getRegisteredGroups())
+    .map(([projectName, groupId]) => {
+      const session = getSession(groupId);
+      const task = getActiveTask(groupId);
+      return {
+        projectName,
+        groupId,
+        groupName: session?.groupName ?? `${config.groupPrefix} ${projectName}`,
+        ...(session && { session: { ...session, name: getActiveSessionName(groupId) } }),
+        archivedSessions: getArchivedSessions(groupId).length,
+        ...(task && {
+          running: { senderName: task.senderName, prompt: task.prompt, startedAt: new Date(task.startedAt).toISOString() },
+        }),
+        waiting: getQueuedTasks(groupId),
+      };
+    })
+    .sort((a, b) => a.projectName.localeCompare(b.projectName));
+}
+
+/**
+ * Refuse the request unless it carries the dashboard token
+ *
+ * Without a token the API is only open on a localhost-bound server.
+ */
+function checkToken(request: RouteContext['request']): HttpResponse | undefined {
+  const token = config.http.dashboardToken;
+  if (!token) {
+    return isLoopbackHost(config.http.host)
+      ? undefined
+      : { status: 403, body: { error: `set http.dashboardToken to use the dashboard on ${config.http.host}` } };
+  }
+  // Compared in constant time, so response timing doesn't leak the token
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(request.headers.authorization ?? '');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { status: 401, body: { error: 'missing or wrong dashboard token' } };
+  }
+  return undefined;
+}
+
+/**
+ * Refuse actions that could have come from another site's form
+ */
+function checkAction(request: RouteContext['request']): HttpResponse | undefined {
+  if (!request.headers['content-type']?.startsWith('application/json')) {
+    return { status: 415, body: { error: 'actions need Content-Type: application/json' } };
+  }
+  return checkToken(request);
+}
+
+/**
+ * Look up the project named in the query string
+ */
+function findProject(url: URL): DashboardProject | HttpResponse {
+  const projectName = url.searchParams.get('project');
+  const groups = getRegisteredGroups();
+  // The name comes from the URL: "__proto__" mustn't reach Object.prototype
+  const groupId = projectName && Object.hasOwn(groups, projectName) ? groups[projectName] : undefined;
+  if (!projectName || !groupId) {
+    return { status: 404, body: { error: `unknown project ${projectName ?? '(none)'}` } };
+  }
+  return {
+    projectName,
+    groupId,
+    projectPath: join(config.projectsRoot, projectName),
+    groupName: getSession(groupId)?.groupName ?? projectName,
+  };
+}
+
+registerRoute({
+  path: '/dashboard',
+  handler: () => ({ status: 200, body: DASHBOARD_HTML, contentType: 'text/html; charset=utf-8' }),
+});
+
+registerRoute({
+  path: '/api/groups',
+  handler: ({ request }) => checkToken(request) ?? { status: 200, body: { groups: listGroups() } },
+});
+
+registerRoute({
+  path: '/api/history',
+  handler: async ({ request, url }) => {
+    const denied = checkToken(request);
+    if (denied) return denied;
+    const project = findProject(url);
+    if ('status' in project) return project;
+
+    const page = Math.max(1, parseInt(url.searchParams.get('page') ?? '1', 10) || 1);
+    const { messages, total, hasMore } = await readHistoryPage(project.projectPath, {
+      offset: (page - 1) * HISTORY_PAGE_SIZE,
+      limit: HISTORY_PAGE_SIZE,
+    });
+    return {
+      status: 200,
+      body: { project: project.projectName, page, pageSize: HISTORY_PAGE_SIZE, total, hasMore, messages },
+    };
+  },
+});
+
+registerRoute({
+  method: 'POST',
+  path: '/api/reset-session',
+  handler: async ({ request, url }) => {
+    const denied = checkAction(request);
+    if (denied) return denied;
+    const project = findProject(url);
+    if ('status' in project) return project;
+
+    const logger = createLogger({ groupId: project.groupId, groupName: project.groupName });
+    const archived = archiveSession(project.groupId, 'cleared from the dashboard', logger);
+    if (!archived) {
+      return { status: 409, body: { error: 'no active session' } };
+    }
+    await notifyGroup(project.groupId, '🆕 Session cleared from the dashboard. The next message starts a fresh conversation. Send !restore to undo.');
+    return { status: 200, body: { archived } };
+  },
+});
+
+registerRoute({
+  method: 'POST',
+  path: '/api/cancel',
+  handler: async ({ request, url }) => {
+    const denied = checkAction(request);
+    if (denied) return denied;
+    const project = findProject(url);
+    if ('status' in project) return project;
+
+    const logger = createLogger({ groupId: project.groupId, groupName: project.groupName });
+    const taskId = url.searchParams.get('task');
+    if (taskId) {
+      const task = cancelQueuedTask(project.groupId, taskId);
+      if (!task) {
+        return { status: 409, body: { error: 'task is no longer waiting' } };
+      }
+      logger.info(`Queued task ${task.id} cancelled from the dashboard`);
+      await notifyGroup(project.groupId, `🗑️ ${task.senderName}'s queued message was dropped from the dashboard: "${truncate(task.prompt, 100)}"`);
+      return { status: 200, body: { cancelled: task } };
+    }
+
+    const task = cancelTask(project.groupId, 'stopped from the dashboard');
+    if (!task) {
+      return { status: 409, body: { error: 'nothing is running' } };
+    }
+    logger.info(`Running task stopped from the dashboard`);
+    await notifyGroup(project.groupId, `⏹️ ${task.senderName}'s task was stopped from the dashboard: "${truncate(task.prompt, 100)}"`);
+    return { status: 200, body: { stopped: { senderName: task.senderName, prompt: task.prompt } } };
+  },
+});
+
+/**
+ * The dashboard page: plain HTML and script, polling the API
+ */
+const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>WhatsClaude</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 1.5rem; color: #222; }
+  h1 { font-size: 1.3rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .4rem .6rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  button { margin: 0 .2rem .2rem 0; }
+  .muted { color: #888; }
+  .error { color: #b00; }
+  #history { margin-top: 2rem; }
+  .message { border-bottom: 1px solid #eee; padding: .4rem 0; }
+  .message pre { white-space: pre-wrap; margin: .2rem 0 0; font: inherit; }
+</style>
+</head>
+<body>
+<h1>WhatsClaude</h1>
+<p id="error" class="error"></p>
+<table>
+  <thead><tr><th>Group</th><th>Session</th><th>Running</th><th>Queued</th><th></th></tr></thead>
+  <tbody id="groups"></tbody>
+</table>
+<section id="history" hidden>
+  <h2 id="history-title"></h2>
+  <button id="newer">Newer</button><button id="older">Older</button> <span id="history-page" class="muted"></span>
+  <div id="messages"></div>
+</section>
+<script>
+const token = new URLSearchParams(location.hash.slice(1)).get('token');
+const view = { project: null, page: 1 };
+
+async function api(path, method = 'GET') {
+  const headers = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = 'Bearer ' + token;
+  const response = await fetch(path, { method, headers });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error || response.statusText);
+  return body;
+}
+
+function el(tag, text, className) {
+  const node = document.createElement(tag);
+  if (text !== undefined) node.textContent = text;
+  if (className) node.className = className;
+  return node;
+}
+
+function button(label, onClick) {
+  const node = el('button', label);
+  node.onclick = () => onClick().then(refresh).catch(showError);
+  return node;
+}
+
+function showError(error) {
+  document.getElementById('error').textContent = error ? String(error.message || error) : '';
+}
+
+function short(text, max = 80) {
+  return text.length > max ? text.slice(0, max) + '…' : text;
+}
+
+function renderGroup(group) {
+  const query = '?project=' + encodeURIComponent(group.projectName);
+  const row = el('tr');
+
+  const name = el('td');
+  name.append(el('div', group.groupName), el('div', group.projectName, 'muted'));
+
+  const session = el('td');
+  if (group.session) {
+    session.append(
+      el('div', group.session.sessionId.slice(0, 8) + ' (' + group.session.name + ')'),
+      el('div', (group.session.turns || 0) + ' turns, active ' + new Date(group.session.lastActivity).toLocaleString(), 'muted')
+    );
+  } else {
+    session.append(el('span', 'none', 'muted'));
+  }
+  if (group.archivedSessions) session.append(el('div', group.archivedSessions + ' archived', 'muted'));
+
+  const running = el('td');
+  if (group.running) {
+    running.append(el('div', group.running.senderName + ': ' + short(group.running.prompt)));
+    running.append(button('Stop', () => api('/api/cancel' + query, 'POST')));
+  } else {
+    running.append(el('span', 'idle', 'muted'));
+  }
+
+  const queued = el('td');
+  for (const task of group.waiting) {
+    const item = el('div', task.senderName + ': ' + short(task.prompt) + ' ');
+    item.append(button('Cancel', () => api('/api/cancel' + query + '&task=' + encodeURIComponent(task.id), 'POST')));
+    queued.append(item);
+  }
+  if (group.waiting.length === 0) queued.append(el('span', 'empty', 'muted'));
+
+  const actions = el('td');
+  actions.append(button('History', () => { view.project = group.projectName; view.page = 1; return renderHistory(); }));
+  if (group.session) {
+    actions.append(button('Reset session', async () => {
+      if (confirm('Archive the session of ' + group.groupName + '?')) await api('/api/reset-session' + query, 'POST');
+    }));
+  }
+
+  row.append(name, session, running, queued, actions);
+  return row;
+}
+
+async function renderHistory() {
+  const section = document.getElementById('history');
+  const data = await api('/api/history?project=' + encodeURIComponent(view.project) + '&page=' + view.page);
+  section.hidden = false;
+  document.getElementById('history-title').textContent = 'History: ' + data.project;
+  document.getElementById('history-page').textContent =
+    'page ' + data.page + ' of ' + Math.max(1, Math.ceil(data.total / data.pageSize)) + ' (' + data.total + ' messages)';
+  document.getElementById('newer').disabled = data.page <= 1;
+  document.getElementById('older').disabled = !data.hasMore;
+  const messages = document.getElementById('messages');
+  messages.replaceChildren(...data.messages.slice().reverse().map((message) => {
+    const item = el('div', undefined, 'message');
+    item.append(
+      el('div', new Date(message.ts).toLocaleString() + ' · ' + message.senderName, 'muted'),
+      el('pre', message.content)
+    );
+    return item;
+  }));
+}
+
+async function refresh() {
+  try {
+    const { groups } = await api('/api/groups');
+    const rows = groups.map(renderGroup);
+    if (rows.length === 0) {
+      const empty = el('tr');
+      empty.append(el('td', 'No groups yet', 'muted'));
+      rows.push(empty);
+    }
+    document.getElementById('groups').replaceChildren(...rows);
+    showError();
+  } catch (error) {
+    showError(error);
+  }
+}
+
+document.getElementById('newer').onclick = () => { view.page--; renderHistory().catch(showError); };
+document.getElementById('older').onclick = () => { view.page++; renderHistory().catch(showError); };
+refresh();
+setInterval(refresh, 3000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,235 @@
+/**
+ * Conversation export for WhatsClaude
+ *
+ * Renders a project's history (optionally a date range) as a Markdown
+ * transcript or a self-contained HTML page, for sharing outside WhatsApp.
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { streamHistory } from './history.js';
+import { ensureDir } from './utils.js';
+import type { StoredMessage } from './types.js';
+
+/**
+ * Export directory, relative to the project directory
+ */
+export const EXPORTS_DIR = 'exports';
+
+export type ExportFormat = 'markdown' | 'html';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Only messages at or after this time */
+  since?: Date;
+  /** Only messages before this time */
+  until?: Date;
+  /** Heading for the transcript (default: the group name) */
+  title?: string;
+}
+
+export interface ExportResult {
+  /** Absolute path of the written file */
+  path: string;
+  messageCount: number;
+}
+
+/**
+ * Default limit for transcripts handed to Claude (e.g. to summarize)
+ */
+const MAX_TRANSCRIPT_CHARS = 100_000;
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+};
+
+/**
+ * Describe the exported range, e.g. "2026-01-01 – 2026-01-31"
+ */
+function describeRange(messages: StoredMessage[]): string {
+  if (messages.length === 0) return 'no messages';
+  const first = messages[0].ts.slice(0, 10);
+  const last = messages[messages.length - 1].ts.slice(0, 10);
+  return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * Group messages by day (UTC, as stored)
+ */
+function groupByDay(messages: StoredMessage[]): [string, StoredMessage[]][] {
+  const days: Map<string, StoredMessage[]> = new Map();
+  for (const message of messages) {
+    const day = message.ts.slice(0, 10);
+    days.set(day, [...(days.get(day) ?? []), message]);
+  }
+  return [...days];
+}
+
+function formatTime(ts: string): string {
+  return ts.slice(11, 16);
+}
+
+function attachmentNames(message: StoredMessage): string[] {
+  return (message.attachments ?? []).map((a) => a.filename ?? a.path);
+}
+
+/**
+ * Render messages as a Markdown transcript
+ */
+export function renderMarkdown(messages: StoredMessage[], title: string): string {
+  const lines = [
+    `# ${title}`,
+    '',
+    `_${messages.length} message(s), ${describeRange(messages)}. Exported ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC._`,
+  ];
+
+  for (const [day, dayMessages] of groupByDay(messages)) {
+    lines.push('', `## ${day}`);
+    for (const m of dayMessages) {
+      if (m.role === 'system') {
+        lines.push('', `_${formatTime(m.ts)} · ${m.content}_`);
+        continue;
+      }
+
+      const icon = m.role === 'assistant' ? '🤖' : '💬';
+      lines.push('', `### ${icon} ${m.senderName} · ${formatTime(m.ts)}`, '', m.content);
+      const attachments = attachmentNames(m);
+      if (attachments.length > 0) {
+        lines.push('', `📎 ${attachments.join(', ')}`);
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render messages as a plain transcript for Claude to read, keeping the most
+ * recent ones if it's too long
+ */
+export function formatTranscript(messages: StoredMessage[], maxChars = MAX_TRANSCRIPT_CHARS): string {
+  const lines: string[] = [];
+  let length = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    const line = `[${m.ts.slice(0, 16).replace('T', ' ')}] ${m.senderName}: ${m.content}`;
+    if (length + line.length > maxChars) break;
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Escape text for HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #efeae2; margin: 0; padding: 24px; color: #111b21; }
+  main { max-width: 820px; margin: 0 auto; }
+  h1 { font-size: 1.4em; margin-bottom: 4px; }
+  .meta { color: #667781; margin-bottom: 24px; }
+  .day { text-align: center; margin: 24px 0 12px; }
+  .day span { background: #fff; border-radius: 8px; padding: 4px 12px; font-size: 0.85em; color: #54656f; }
+  .message { border-radius: 8px; padding: 8px 12px; margin: 6px 0; max-width: 85%; box-shadow: 0 1px 1px rgba(0,0,0,0.1); }
+  .user { background: #fff; }
+  .assistant { background: #d9fdd3; margin-left: auto; }
+  .system { background: transparent; box-shadow: none; color: #667781; font-style: italic; text-align: center; max-width: 100%; }
+  .sender { font-weight: 600; font-size: 0.9em; margin-bottom: 2px; }
+  .assistant .sender { color: #008069; }
+  .user .sender { color: #5b61b9; }
+  .content { white-space: pre-wrap; word-wrap: break-word; }
+  .attachments { font-size: 0.85em; color: #54656f; margin-top: 4px; }
+  .time { font-size: 0.75em; color: #667781; text-align: right; }
+`;
+
+/**
+ * Render messages as a self-contained HTML page (inline CSS, no external assets)
+ */
+export function renderHtml(messages: StoredMessage[], title: string): string {
+  const body: string[] = [];
+  for (const [day, dayMessages] of groupByDay(messages)) {
+    body.push(`<div class="day"><span>${day}</span></div>`);
+    for (const m of dayMessages) {
+      const attachments = attachmentNames(m);
+      body.push(
+        `<div class="message ${m.role}">`,
+        m.role === 'system' ? '' : `<div class="sender">${escapeHtml(m.senderName)}</div>`,
+        `<div class="content">${escapeHtml(m.content)}</div>`,
+        attachments.length > 0 ? `<div class="attachments">📎 ${escapeHtml(attachments.join(', '))}</div>` : '',
+        `<div class="time">${formatTime(m.ts)}</div>`,
+        '</div>'
+      );
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${messages.length} message(s), ${describeRange(messages)}</div>
+${body.filter(Boolean).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a project's history in the requested format
+ */
+export async function renderConversation(
+  projectPath: string,
+  options: ExportOptions
+): Promise<{ content: string; messages: StoredMessage[] }> {
+  const messages: StoredMessage[] = [];
+  for await (const message of streamHistory(projectPath, { since: options.since, until: options.until })) {
+    messages.push(message);
+  }
+  const title = options.title ?? messages[0]?.groupName ?? 'Conversation';
+  const content = options.format === 'html' ? renderHtml(messages, title) : renderMarkdown(messages, title);
+  return { content, messages };
+}
+
+/**
+ * Export a project's conversation into <project>/exports/
+ */
+export async function exportConversation(projectPath: string, options: ExportOptions): Promise<ExportResult> {
+  const { content, messages } = await renderConversation(projectPath, options);
+
+  const exportsPath = join(projectPath, EXPORTS_DIR);
+  ensureDir(exportsPath);
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const path = join(exportsPath, `conversation-${stamp}${FILE_EXTENSIONS[options.format]}`);
+  writeFileSync(path, content);
+
+  return { path, messageCount: messages.length };
+}
+
+/**
+ * Parse an export format name ("md", "markdown", "html")
+ *
+ * @returns The format, or undefined if the name isn't one
+ */
+export function parseExportFormat(name: string): ExportFormat | undefined {
+  const normalized = name.toLowerCase();
+  if (normalized === 'md' || normalized === 'markdown') return 'markdown';
+  if (normalized === 'html' || normalized === 'htm') return 'html';
+  return undefined;
+}
@@ -2,14 +2,66 @@
  * JSONL history logging for WhatsClaude
  *
  * Stores all messages to JSONL files for auditing,
- * debugging, and potential future features like search.
+ * debugging and search.
+ *
+ * history.jsonl is rotated into gzip-compressed segments under
+ * .whatsclaude/history-segments/ once it grows too large or too old.
+ * Segments are listed (with message counts and date ranges) in
+ * segments.json, so readers can page without decompressing everything.
+ *
+ * Readers skip lines that aren't valid JSON (e.g. a final line cut off
+ * by a crash) instead of giving up on the whole history.
  */
 
-import { appendFileSync, existsSync, readFileSync } from 'fs';
+import {
+  appendFileSync,
+  closeSync,
+  createReadStream,
+  existsSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
 import { join, dirname } from 'path';
-import { log } from './config.js';
+import { createInterface } from 'readline';
+import { gunzipSync, gzipSync, createGunzip } from 'zlib';
+import { config } from './config.js';
+import { log } from './logger.js';
 import type { StoredMessage } from './types.js';
-import { ensureDir } from './utils.js';
+import { ensureDir, getErrorMessage } from './utils.js';
+
+/**
+ * A compressed, read-only slice of a project's history
+ */
+export interface HistorySegment {
+  /** File name inside the segments directory */
+  file: string;
+  /** Number of valid messages */
+  messages: number;
+  /** Timestamp of the first and last message */
+  firstTs: string;
+  lastTs: string;
+}
+
+/**
+ * One page of history
+ */
+export interface HistoryPage {
+  /** Messages in chronological order */
+  messages: StoredMessage[];
+  /** Messages in the whole history */
+  total: number;
+  /** Whether more messages lie beyond this page */
+  hasMore: boolean;
+}
+
+// First message timestamp of each live history file (for age-based rotation)
+const firstTimestamps: Map<string, string> = new Map();
 
 /**
  * Get the history file path for a project
@@ -19,7 +71,199 @@ export function getHistoryPath(projectPath: string): string {
 }
 
 /**
- * Append a message to the history file
+ * Get the directory holding a project's compressed history segments
+ */
+export function getSegmentsDir(projectPath: string): string {
+  return join(projectPath, '.whatsclaude', 'history-segments');
+}
+
+/**
+ * Parse JSONL history content, skipping lines that aren't valid JSON
+ */
+export function parseHistoryLines(content: string, source: string): StoredMessage[] {
+  const messages: StoredMessage[] = [];
+  const lines = content.split('\n');
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      messages.push(JSON.parse(line) as StoredMessage);
+    } catch {
+      const truncated = i === lines.length - 1;
+      log('warn', `Skipping ${truncated ? 'truncated final' : 'unparseable'} line ${i + 1} of ${source}`);
+    }
+  });
+  return messages;
+}
+
+/**
+ * Read the timestamp of the first message in a history file
+ */
+function readFirstTimestamp(historyPath: string): string | undefined {
+  const cached = firstTimestamps.get(historyPath);
+  if (cached) return cached;
+
+  // Messages are serialized id first, then ts - no need to parse a possibly huge first line
+  const buffer = Buffer.alloc(1024);
+  const fd = openSync(historyPath, 'r');
+  let bytesRead: number;
+  try {
+    bytesRead = readSync(fd, buffer, 0, buffer.length, 0);
+  } finally {
+    closeSync(fd);
+  }
+
+  const ts = buffer.subarray(0, bytesRead).toString('utf-8').match(/"ts":"([^"]+)"/)?.[1];
+  if (ts) {
+    firstTimestamps.set(historyPath, ts);
+  }
+  return ts;
+}
+
+/**
+ * Check whether the live history file is due for rotation before appending a message
+ *
+ * Age is measured between the file's first message and the new one, so
+ * imported (old) messages rotate by their own dates rather than all at once.
+ */
+function shouldRotate(historyPath: string, nextTs: string): boolean {
+  if (!existsSync(historyPath)) return false;
+
+  const { size } = statSync(historyPath);
+  if (size === 0) return false;
+  if (config.historyMaxBytes > 0 && size >= config.historyMaxBytes) return true;
+  if (config.historyMaxAgeMs > 0) {
+    const firstTs = readFirstTimestamp(historyPath);
+    return firstTs !== undefined && Date.parse(nextTs) - Date.parse(firstTs) >= config.historyMaxAgeMs;
+  }
+  return false;
+}
+
+/**
+ * Get the segment manifest path for a project
+ */
+function getManifestPath(projectPath: string): string {
+  return join(getSegmentsDir(projectPath), 'segments.json');
+}
+
+/**
+ * List a project's history segments, oldest first
+ *
+ * Rebuilds the manifest from the segment files if it's missing.
+ */
+export function getHistorySegments(projectPath: string): HistorySegment[] {
+  const manifestPath = getManifestPath(projectPath);
+  if (existsSync(manifestPath)) {
+    try {
+      return JSON.parse(readFileSync(manifestPath, 'utf-8')) as HistorySegment[];
+    } catch (error) {
+      log('warn', `Rebuilding unreadable history manifest ${manifestPath}:`, getErrorMessage(error));
+    }
+  }
+
+  const segmentsDir = getSegmentsDir(projectPath);
+  if (!existsSync(segmentsDir)) {
+    return [];
+  }
+
+  const segments = readdirSync(segmentsDir)
+    .filter((file) => file.endsWith('.jsonl.gz'))
+    .sort()
+    .map((file) => describeSegment(file, readSegmentMessages(projectPath, file)));
+  writeFileSync(manifestPath, JSON.stringify(segments, null, 2));
+  return segments;
+}
+
+function describeSegment(file: string, messages: StoredMessage[]): HistorySegment {
+  return {
+    file,
+    messages: messages.length,
+    firstTs: messages[0]?.ts ?? '',
+    lastTs: messages[messages.length - 1]?.ts ?? '',
+  };
+}
+
+/**
+ * Decompress a segment's JSONL content
+ */
+export function readSegment(projectPath: string, file: string): Buffer {
+  return gunzipSync(readFileSync(join(getSegmentsDir(projectPath), file)));
+}
+
+function readSegmentMessages(projectPath: string, file: string): StoredMessage[] {
+  return parseHistoryLines(readSegment(projectPath, file).toString('utf-8'), join(getSegmentsDir(projectPath), file));
+}
+
+/**
+ * Write messages as a new compressed segment and add it to the manifest
+ *
+ * The manifest stays in chronological order (by first message), so a
+ * segment of older messages - e.g. an import - slots in before newer ones.
+ */
+function writeSegment(projectPath: string, content: string, messages: StoredMessage[]): HistorySegment {
+  const segmentsDir = getSegmentsDir(projectPath);
+  ensureDir(segmentsDir);
+  const segments = getHistorySegments(projectPath);
+
+  // Named after the first message so names sort chronologically
+  const stamp = messages[0].ts.replace(/[:.]/g, '-');
+  let file = `history-${stamp}.jsonl.gz`;
+  for (let n = 2; segments.some((segment) => segment.file === file); n++) {
+    file = `history-${stamp}-${n}.jsonl.gz`;
+  }
+
+  const tempPath = join(segmentsDir, `${file}.tmp`);
+  writeFileSync(tempPath, gzipSync(content));
+  renameSync(tempPath, join(segmentsDir, file));
+
+  const segment = describeSegment(file, messages);
+  const manifest = [...segments, segment].sort((a, b) => a.firstTs.localeCompare(b.firstTs));
+  writeFileSync(getManifestPath(projectPath), JSON.stringify(manifest, null, 2));
+  return segment;
+}
+
+/**
+ * Store older messages (e.g. imported from a chat export) as their own segment
+ *
+ * @param messages - Messages in chronological order
+ */
+export function addHistorySegment(projectPath: string, messages: StoredMessage[]): HistorySegment | undefined {
+  if (messages.length === 0) {
+    return undefined;
+  }
+  const content = messages.map((message) => JSON.stringify(message)).join('\n') + '\n';
+  const segment = writeSegment(projectPath, content, messages);
+  log('info', `Added ${segment.messages} history message(s) as ${segment.file}`);
+  return segment;
+}
+
+/**
+ * Compress the live history file into a new segment and start a fresh one
+ *
+ * @returns The new segment, or undefined if there was nothing to rotate
+ */
+export function rotateHistory(projectPath: string): HistorySegment | undefined {
+  const historyPath = getHistoryPath(projectPath);
+  if (!existsSync(historyPath)) {
+    return undefined;
+  }
+
+  const content = readFileSync(historyPath, 'utf-8');
+  const messages = parseHistoryLines(content, historyPath);
+  if (messages.length === 0) {
+    return undefined;
+  }
+
+  // Write the segment before dropping the live file, so a crash can't lose messages
+  const segment = writeSegment(projectPath, content, messages);
+  rmSync(historyPath);
+  firstTimestamps.delete(historyPath);
+
+  log('info', `Rotated ${segment.messages} history message(s) into ${segment.file}`);
+  return segment;
+}
+
+/**
+ * Append a message to the history file, rotating it first if it's due
  */
 export function appendToHistory(projectPath: string, message: StoredMessage): void {
   const historyPath = getHistoryPath(projectPath);
@@ -28,8 +272,17 @@ export function appendToHistory(projectPath: string, message: StoredMessage): vo
   ensureDir(dirname(historyPath));
 
   try {
+    if (shouldRotate(historyPath, message.ts)) {
+      rotateHistory(projectPath);
+    }
+  } catch (error) {
+    log('error', 'Failed to rotate history:', error);
+  }
+
+  try {
+    // Don't glue onto a final line left unterminated by a crash
     const line = JSON.stringify(message) + '\n';
-    appendFileSync(historyPath, line);
+    appendFileSync(historyPath, endsWithNewline(historyPath) ? line : `\n${line}`);
     log('debug', `Appended to history: ${message.role} message`);
   } catch (error) {
     log('error', 'Failed to append to history:', error);
@@ -37,38 +290,145 @@ export function appendToHistory(projectPath: string, message: StoredMessage): vo
 }
 
 /**
- * Read all messages from history (for debugging)
+ * Check whether a file is empty, missing or ends with a newline
  */
-export function readHistory(projectPath: string): StoredMessage[] {
-  const historyPath = getHistoryPath(projectPath);
+function endsWithNewline(path: string): boolean {
+  if (!existsSync(path)) return true;
+  const { size } = statSync(path);
+  if (size === 0) return true;
 
-  if (!existsSync(historyPath)) {
-    return [];
+  const buffer = Buffer.alloc(1);
+  const fd = openSync(path, 'r');
+  try {
+    readSync(fd, buffer, 0, 1, size - 1);
+  } finally {
+    closeSync(fd);
   }
+  return buffer[0] === 0x0a;
+}
+
+/**
+ * Stream one history file's messages (segments are gzip-compressed)
+ */
+async function* streamFile(path: string, gzip: boolean): AsyncGenerator<StoredMessage> {
+  if (!existsSync(path)) return;
 
+  const file = createReadStream(path);
+  const lines = createInterface({ input: gzip ? file.pipe(createGunzip()) : file, crlfDelay: Infinity });
+  let lineNumber = 0;
   try {
-    const content = readFileSync(historyPath, 'utf-8');
-    const lines = content.trim().split('\n').filter(Boolean);
-    return lines.map((line) => JSON.parse(line) as StoredMessage);
-  } catch (error) {
-    log('error', 'Failed to read history:', error);
-    return [];
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as StoredMessage;
+      } catch {
+        log('warn', `Skipping unparseable line ${lineNumber} of ${path}`);
+      }
+    }
+  } finally {
+    // The caller may stop early
+    lines.close();
+    file.destroy();
   }
 }
 
 /**
- * Get the count of messages in history
+ * Count the messages in the live history file without loading it
  */
-export function getHistoryCount(projectPath: string): number {
-  const historyPath = getHistoryPath(projectPath);
+async function countLiveMessages(projectPath: string): Promise<number> {
+  let count = 0;
+  for await (const _ of streamFile(getHistoryPath(projectPath), false)) {
+    count++;
+  }
+  return count;
+}
 
-  if (!existsSync(historyPath)) {
-    return 0;
+/**
+ * Stream messages in chronological order, segments first
+ *
+ * Reads line by line, so memory use doesn't grow with the history size.
+ * With since/until, only messages in [since, until) are yielded, and
+ * segments outside the range (per the manifest) aren't read at all.
+ */
+export async function* streamHistory(
+  projectPath: string,
+  range: { since?: Date; until?: Date } = {}
+): AsyncGenerator<StoredMessage> {
+  const since = range.since?.toISOString();
+  const until = range.until?.toISOString();
+  const sources = [
+    ...getHistorySegments(projectPath)
+      .filter((segment) => (!since || segment.lastTs >= since) && (!until || segment.firstTs < until))
+      .map((segment) => ({ path: join(getSegmentsDir(projectPath), segment.file), gzip: true })),
+    { path: getHistoryPath(projectPath), gzip: false },
+  ];
+
+  for (const { path, gzip } of sources) {
+    for await (const message of streamFile(path, gzip)) {
+      if ((since && message.ts < since) || (until && message.ts >= until)) continue;
+      yield message;
+    }
   }
+}
+
+/**
+ * Read one page of history
+ *
+ * With newestFirst (the default), offset 0 is the most recent message, so
+ * page 2 of 20 is { offset: 20, limit: 20 }. Segment message counts from
+ * the manifest let pages skip segments they don't touch; the files a page
+ * does touch are streamed, keeping only the page's messages.
+ */
+export async function readHistoryPage(
+  projectPath: string,
+  options: { offset?: number; limit?: number; newestFirst?: boolean } = {}
+): Promise<HistoryPage> {
+  const { offset = 0, limit = 20, newestFirst = true } = options;
+
+  const sources = [
+    ...getHistorySegments(projectPath).map((segment) => ({
+      count: segment.messages,
+      path: join(getSegmentsDir(projectPath), segment.file),
+      gzip: true,
+    })),
+    { count: await countLiveMessages(projectPath), path: getHistoryPath(projectPath), gzip: false },
+  ];
+  const total = sources.reduce((sum, source) => sum + source.count, 0);
 
+  // The page as positions in chronological order
+  const start = newestFirst ? Math.max(0, total - offset - limit) : offset;
+  const end = newestFirst ? total - offset : Math.min(total, offset + limit);
+
+  const messages: StoredMessage[] = [];
+  let position = 0;
+  for (const source of sources) {
+    if (position >= end) break;
+    if (position + source.count > start) {
+      let index = position;
+      for await (const message of streamFile(source.path, source.gzip)) {
+        if (index >= end) break;
+        if (index >= start) messages.push(message);
+        index++;
+      }
+    }
+    position += source.count;
+  }
+
+  return {
+    messages,
+    total,
+    hasMore: offset + messages.length < total,
+  };
+}
+
+/**
+ * Get the count of messages in history, segments included
+ */
+export async function getHistoryCount(projectPath: string): Promise<number> {
   try {
-    const content = readFileSync(historyPath, 'utf-8');
-    return content.trim().split('\n').filter(Boolean).length;
+    const archived = getHistorySegments(projectPath).reduce((sum, segment) => sum + segment.messages, 0);
+    return archived + await countLiveMessages(projectPath);
   } catch (error) {
     return 0;
   }
@@ -0,0 +1,244 @@
+/**
+ * Embedded HTTP server for WhatsClaude
+ *
+ * Optional (config.http) and bound to localhost by default, for process
+ * supervisors and monitoring:
+ * - /healthz: 200 unless the transport can't recover by itself (logged out,
+ *   reconnecting keeps failing, disconnected past the grace period)
+ * - /readyz: 200 only while the transport is connected and delivering
+ * - /status: connection state, queues and sessions as JSON
+ * - /metrics: Prometheus metrics
+ *
+ * More routes can be added with registerRoute(). Requests are only answered
+ * when their Host header names this server (localhost, the bound address or
+ * config.http.allowedHosts), so a DNS-rebinding web page can't read them.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { log } from './logger.js';
+import { METRICS_CONTENT_TYPE, renderMetrics } from './metrics.js';
+import { getQueueStatus } from './router.js';
+import { getAllSessions } from './sessions.js';
+import { getErrorMessage } from './utils.js';
+import type { ConnectionState } from './types.js';
+
+/**
+ * What a route handler gets
+ */
+export interface RouteContext {
+  url: URL;
+  request: IncomingMessage;
+  connection: ConnectionState;
+  health: HealthCheck;
+  /** Seconds since the server started */
+  uptimeSeconds: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  /** Objects are sent as JSON */
+  body: string | object;
+  /** Defaults to JSON for objects, plain text for strings */
+  contentType?: string;
+}
+
+export interface Route {
+  /** Defaults to GET */
+  method?: 'GET' | 'POST';
+  path: string;
+  handler: (ctx: RouteContext) => HttpResponse | Promise<HttpResponse>;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  /** 0 picks a free port */
+  port: number;
+  /** Report unhealthy after being disconnected this long */
+  disconnectedGraceMs: number;
+  /** Host names to answer besides localhost and `host` */
+  allowedHosts?: string[];
+  getConnection: () => ConnectionState;
+}
+
+export interface HttpServer {
+  /** The port actually bound */
+  port: number;
+  close(): Promise<void>;
+}
+
+export interface HealthCheck {
+  healthy: boolean;
+  ready: boolean;
+  /** Why the check failed */
+  reason?: string;
+}
+
+const routes: Route[] = [];
+
+/**
+ * Addresses that are only reachable from this machine
+ */
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Check whether a bind address is only reachable from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+/**
+ * Check a request's Host header (with or without a port) against the allowed host names
+ */
+export function isAllowedHost(hostHeader: string | undefined, allowedHosts: string[]): boolean {
+  if (!hostHeader) return false;
+  const name = hostHeader.toLowerCase().replace(/:\d+$/, '').replace(/^\[(.*)\]$/, '$1');
+  return allowedHosts.includes(name);
+}
+
+/**
+ * Add a route (a later route with the same method and path replaces it)
+ */
+export function registerRoute(route: Route): void {
+  const method = route.method ?? 'GET';
+  const index = routes.findIndex((r) => (r.method ?? 'GET') === method && r.path === route.path);
+  if (index === -1) {
+    routes.push(route);
+  } else {
+    routes[index] = route;
+  }
+}
+
+/**
+ * Judge a transport's connection state
+ */
+export function checkHealth(connection: ConnectionState, disconnectedGraceMs: number, now: number = Date.now()): HealthCheck {
+  const ready = connection.status === 'ready';
+  const since = Date.parse(connection.since);
+
+  if (connection.status === 'auth_failure') {
+    return { healthy: false, ready, reason: 'WhatsApp login rejected - scan a new QR code' };
+  }
+  if (connection.reconnect?.loggedOut && !ready) {
+    return { healthy: false, ready, reason: 'WhatsApp logged out - scan a new QR code' };
+  }
+  if (connection.reconnect?.circuit === 'open') {
+    return { healthy: false, ready, reason: `reconnecting failed ${connection.reconnect.attempts} times, next try at ${connection.reconnect.nextAttemptAt}` };
+  }
+  if (connection.status === 'stopped') {
+    return { healthy: false, ready, reason: 'transport stopped' };
+  }
+  if (connection.status === 'disconnected' && now - since > disconnectedGraceMs) {
+    return { healthy: false, ready, reason: `disconnected since ${connection.since}` };
+  }
+  return { healthy: true, ready, ...(!ready && { reason: `connection is ${connection.status}` }) };
+}
+
+registerRoute({
+  path: '/healthz',
+  handler: ({ connection, health: { healthy, reason }, uptimeSeconds }) => ({
+    status: healthy ? 200 : 503,
+    body: { status: healthy ? 'ok' : 'unhealthy', ...(reason && { reason }), connection, uptimeSeconds },
+  }),
+});
+
+registerRoute({
+  path: '/readyz',
+  handler: ({ connection, health: { ready, reason } }) => ({
+    status: ready ? 200 : 503,
+    body: { ready, ...(reason && { reason }), connection },
+  }),
+});
+
+registerRoute({
+  path: '/status',
+  handler: ({ connection, uptimeSeconds }) => ({
+    status: 200,
+    body: { connection, uptimeSeconds, queues: getQueueStatus(), sessions: getAllSessions() },
+  }),
+});
+
+registerRoute({
+  path: '/metrics',
+  handler: () => ({ status: 200, body: renderMetrics(), contentType: METRICS_CONTENT_TYPE }),
+});
+
+function send(res: ServerResponse, response: HttpResponse): void {
+  const json = typeof response.body !== 'string';
+  const body = json ? JSON.stringify(response.body, null, 2) : response.body as string;
+  res.writeHead(response.status, {
+    'Content-Type': response.contentType ?? (json ? 'application/json' : 'text/plain; charset=utf-8'),
+    'Cache-Control': 'no-store',
+  });
+  res.end(body);
+}
+
+/**
+ * Start the HTTP server
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  const { host, port, disconnectedGraceMs, allowedHosts = [], getConnection } = options;
+  const startedAt = Date.now();
+  const hostNames = [...LOOPBACK_HOSTS, host, ...allowedHosts].map((name) => name.toLowerCase());
+
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!isAllowedHost(req.headers.host, hostNames)) {
+      log('warn', `HTTP ${req.method} ${url.pathname} refused: unknown Host ${req.headers.host ?? '(none)'}`);
+      send(res, { status: 421, body: { error: 'unknown host - add it to http.allowedHosts' } });
+      return;
+    }
+
+    const pathRoutes = routes.filter((r) => r.path === url.pathname);
+    const route = pathRoutes.find((r) => (r.method ?? 'GET') === req.method);
+
+    if (!route) {
+      send(res, pathRoutes.length > 0
+        ? { status: 405, body: { error: `${req.method} not allowed` } }
+        : { status: 404, body: { error: 'not found' } });
+      return;
+    }
+
+    const connection = getConnection();
+    const ctx: RouteContext = {
+      url,
+      request: req,
+      connection,
+      health: checkHealth(connection, disconnectedGraceMs),
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    };
+    Promise.resolve()
+      .then(() => route.handler(ctx))
+      .then((response) => send(res, response))
+      .catch((error) => {
+        log('error', `HTTP ${req.method} ${url.pathname} failed:`, getErrorMessage(error));
+        send(res, { status: 500, body: { error: getErrorMessage(error) } });
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const bound = (server.address() as AddressInfo).port;
+  log('info', `HTTP server listening on http://${host}:${bound}`);
+  if (!isLoopbackHost(host)) {
+    log('warn', `HTTP server is bound to ${host} - /status exposes group and session details`);
+    if (allowedHosts.length === 0) {
+      log('warn', `Only requests for localhost or ${host} are answered - list other names in http.allowedHosts`);
+    }
+  }
+
+  return {
+    port: bound,
+    close: () => new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }),
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * WhatsApp chat export import for WhatsClaude
+ *
+ * Parses the text file WhatsApp produces with "Export chat" (Android and
+ * iOS layouts, several locale date formats) into history messages, so a
+ * group adopted for Claude keeps the discussion it had before. Imported
+ * messages are stored as their own history segment and can optionally be
+ * summarized into a fresh Claude session.
+ */
+
+import { createHash } from 'crypto';
+import { runTextQuery } from './claude.js';
+import { BOT_PREFIX, SERVER_PREFIX } from './config.js';
+import { createLogger, log } from './logger.js';
+import { formatTranscript } from './export.js';
+import { addHistorySegment, appendToHistory, streamHistory } from './history.js';
+import { getGroupSettings } from './projects.js';
+import { getSession, setSession } from './sessions.js';
+import { recordUsage } from './usage.js';
+import type { StoredMessage } from './types.js';
+
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+/**
+ * A message as it appears in the export, before mapping to history
+ */
+export interface ExportedMessage {
+  date: Date;
+  senderName: string;
+  content: string;
+}
+
+export interface ImportOptions {
+  groupId: string;
+  groupName: string;
+  /** Date field order; detected from the file when omitted */
+  dateOrder?: DateOrder;
+}
+
+export interface ImportResult {
+  /** Messages added to the history */
+  imported: StoredMessage[];
+  /** Messages skipped as already present */
+  duplicates: number;
+  /** Messages skipped because the history already covers their time */
+  overlapping: number;
+}
+
+/**
+ * Start of a message line, e.g.
+ * - Android: "31/12/2023, 21:41 - Alice: hi" or "12/31/23, 9:41 PM - Alice: hi"
+ * - iOS: "[31/12/23, 21:41:05] Alice: hi"
+ * - Others: "31.12.23, 21:41 - Alice: hi", "2023-12-31 21:41 - Alice: hi"
+ */
+const LINE_START = /^\[?(\d{1,4})([./-])(\d{1,2})\2(\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s*([AaPp])\.?\s*[Mm]\.?)?\]?\s*(?:[-–]\s+)?(.*)$/;
+
+interface RawLine {
+  fields: [number, number, number];
+  separator: string;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  meridiem?: 'a' | 'p';
+  senderName: string;
+  content: string;
+}
+
+/**
+ * Work out the date field order from all the dates in the file
+ */
+export function detectDateOrder(lines: { fields: [number, number, number]; separator: string; meridiem?: string }[]): DateOrder {
+  if (lines.some((line) => line.fields[0] > 31)) return 'ymd';
+  if (lines.some((line) => line.fields[0] > 12)) return 'dmy';
+  if (lines.some((line) => line.fields[1] > 12)) return 'mdy';
+  // Ambiguous throughout: dotted dates are European, 12-hour clocks mostly US
+  if (lines.some((line) => line.separator === '.')) return 'dmy';
+  if (lines.some((line) => line.meridiem)) return 'mdy';
+  return 'dmy';
+}
+
+/**
+ * Build a local date from a parsed line, or undefined if it isn't a real date
+ */
+function toDate(line: RawLine, order: DateOrder): Date | undefined {
+  const [a, b, c] = line.fields;
+  const [day, month, rawYear] = order === 'dmy' ? [a, b, c] : order === 'mdy' ? [b, a, c] : [c, b, a];
+  const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+
+  let hours = line.hours;
+  if (line.meridiem) {
+    hours = (hours % 12) + (line.meridiem === 'p' ? 12 : 0);
+  }
+
+  const date = new Date(year, month - 1, day, hours, line.minutes, line.seconds);
+  const valid = date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+  return valid ? date : undefined;
+}
+
+/**
+ * Parse the text of a WhatsApp "Export chat" file
+ *
+ * Lines that continue a multi-line message are appended to it. Notices
+ * without a sender (encryption banner, joins, subject changes) are skipped.
+ * Times are read as local time, as WhatsApp writes them.
+ */
+export function parseWhatsAppExport(text: string, dateOrder?: DateOrder): ExportedMessage[] {
+  const lines: RawLine[] = [];
+  let current: RawLine | undefined;
+
+  const normalized = text
+    .replace(/^\uFEFF/, '')
+    .replace(/[\u00A0\u202F]/g, ' ')
+    .replace(/[\u200E\u200F]/g, '');
+
+  for (const line of normalized.split(/\r?\n/)) {
+    const match = LINE_START.exec(line);
+    if (!match) {
+      // Continuation of the previous message
+      if (current) {
+        current.content += `\n${line}`;
+      }
+      continue;
+    }
+
+    const [, a, separator, b, c, hours, minutes, seconds, meridiem, rest] = match;
+    const colon = rest.indexOf(': ');
+    if (colon <= 0) {
+      current = undefined;
+      continue;
+    }
+
+    current = {
+      fields: [Number(a), Number(b), Number(c)],
+      separator,
+      hours: Number(hours),
+      minutes: Number(minutes),
+      seconds: Number(seconds ?? 0),
+      ...(meridiem && { meridiem: meridiem.toLowerCase() as 'a' | 'p' }),
+      senderName: rest.slice(0, colon).trim(),
+      content: rest.slice(colon + 2),
+    };
+    lines.push(current);
+  }
+
+  const order = dateOrder ?? detectDateOrder(lines);
+  const messages: ExportedMessage[] = [];
+  for (const line of lines) {
+    const date = toDate(line, order);
+    if (!date) {
+      log('warn', `Skipping exported message with an invalid ${order} date: ${line.fields.join('/')}`);
+      continue;
+    }
+    messages.push({ date, senderName: line.senderName, content: line.content.trimEnd() });
+  }
+  return messages;
+}
+
+/**
+ * Map a display name to a sender ID: phone numbers (unsaved contacts) become
+ * WhatsApp IDs, anything else is kept as "import:<name>"
+ */
+function toSenderId(senderName: string): string {
+  const digits = senderName.replace(/[\s()+-]/g, '');
+  return /^\d{6,15}$/.test(digits) ? `${digits}@c.us` : `import:${senderName}`;
+}
+
+/**
+ * Map exported messages to history messages
+ *
+ * IDs are derived from the content, so importing the same export twice
+ * yields the same IDs. Messages posted by the bot (BOT_PREFIX / SERVER_PREFIX)
+ * are attributed to Claude and the system respectively.
+ */
+export function toStoredMessages(messages: ExportedMessage[], groupId: string, groupName: string): StoredMessage[] {
+  const occurrences: Map<string, number> = new Map();
+
+  return messages.map(({ date, senderName, content }) => {
+    const ts = date.toISOString();
+    const key = `${ts}|${senderName}|${content}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    const id = `import-${createHash('sha1').update(`${key}|${occurrence}`).digest('hex').slice(0, 16)}`;
+
+    const base = { id, ts, groupId, groupName };
+    if (content.startsWith(BOT_PREFIX)) {
+      return { ...base, role: 'assistant', sender: 'claude', senderName: 'Claude', content: content.slice(BOT_PREFIX.length) };
+    }
+    if (content.startsWith(SERVER_PREFIX)) {
+      return { ...base, role: 'system', sender: 'system', senderName: 'System', content: content.slice(SERVER_PREFIX.length) };
+    }
+    return { ...base, role: 'user', sender: toSenderId(senderName), senderName, content };
+  });
+}
+
+/**
+ * Import a WhatsApp chat export into a project's history
+ *
+ * Only messages older than the existing history are imported - the rest of
+ * the export was already bridged - and messages already present (same ID)
+ * are skipped, so re-importing a longer export only adds what's missing.
+ */
+export async function importChatExport(projectPath: string, text: string, options: ImportOptions): Promise<ImportResult> {
+  const { groupId, groupName, dateOrder } = options;
+  const messages = toStoredMessages(parseWhatsAppExport(text, dateOrder), groupId, groupName);
+
+  const existingIds = new Set<string>();
+  let firstTs: string | undefined;
+  for await (const m of streamHistory(projectPath)) {
+    existingIds.add(m.id);
+    if (!firstTs || m.ts < firstTs) firstTs = m.ts;
+  }
+
+  const fresh = messages.filter((m) => !existingIds.has(m.id));
+  const imported = fresh.filter((m) => !firstTs || m.ts < firstTs);
+  addHistorySegment(projectPath, imported);
+
+  return {
+    imported,
+    duplicates: messages.length - fresh.length,
+    overlapping: fresh.length - imported.length,
+  };
+}
+
+/**
+ * Summarize imported messages in a new Claude session
+ *
+ * The session becomes the group's session unless it already has one; the
+ * summary is stored in the history either way.
+ *
+ * @returns The summary and whether the session was installed
+ */
+export async function seedSessionFromImport(
+  projectPath: string,
+  messages: StoredMessage[],
+  options: Pick<ImportOptions, 'groupId' | 'groupName'>
+): Promise<{ summary: string; installed: boolean }> {
+  const { groupId, groupName } = options;
+  const settings = getGroupSettings(projectPath);
+  const prompt = [
+    'This project\'s WhatsApp group had the discussion below before you were added to it.',
+    'Summarize it for your future reference: decisions made, open questions, who is working on what, and anything about this codebase.',
+    '',
+    formatTranscript(messages),
+  ].join('\n');
+
+  const { sessionId, result: summary, usage } = await runTextQuery(prompt, { cwd: projectPath, model: settings.model });
+  const id = `import-summary-${Date.now()}`;
+  if (usage) {
+    recordUsage(projectPath, { ts: new Date().toISOString(), groupId, messageId: id, senderId: 'system', senderName: 'System', kind: 'import', ...usage });
+  }
+
+  const installed = Boolean(sessionId) && !getSession(groupId);
+  if (sessionId && installed) {
+    setSession(groupId, { sessionId, projectPath, groupName, lastActivity: new Date().toISOString() });
+  }
+
+  appendToHistory(projectPath, {
+    id,
+    ts: new Date().toISOString(),
+    groupId,
+    groupName,
+    role: 'assistant',
+    sender: 'claude',
+    senderName: 'Claude',
+    content: summary,
+  });
+
+  createLogger({ groupId, groupName }).info(`Summarized ${messages.length} imported message(s)${installed ? ' into a new session' : ''}`);
+  return { summary, installed };
+}
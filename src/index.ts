@@ -2,23 +2,51 @@
  * WhatsClaude - WhatsApp to Claude Code Bridge
  *
  * Entry point that wires together:
- * - WhatsApp connection
+ * - Messaging transport (WhatsApp or terminal)
  * - Message routing with queue
  * - Claude Agent SDK
  * - Session management
  * - History logging
  */
 
-import { createWhatsAppClient } from './whatsapp.js';
-import { routeMessage } from './router.js';
+import { existsSync } from 'fs';
+import { createWhatsAppTransport } from './whatsapp.js';
+import { createTerminalTransport } from './terminal.js';
+import { routeMessage, isGroupBusy, notifyGroup } from './router.js';
+import { startSessionSweeper } from './sweeper.js';
+import { startHttpServer, type HttpServer } from './http.js';
+// Adds the /dashboard page and its API to the HTTP server
+import './dashboard.js';
 import { loadState } from './sessions.js';
+import { getAlertSinks } from './alerts.js';
 import { ensureProjectsRoot } from './projects.js';
-import { config, log } from './config.js';
+import { config, configErrors, CONFIG_FILE } from './config.js';
+import { createLogger, log } from './logger.js';
 import { acquireLock, forceCleanup } from './lockfile.js';
+import { formatDuration, getErrorMessage } from './utils.js';
+import type { Config, Transport, TransportHandlers } from './types.js';
+
+/**
+ * Create the configured messaging transport
+ */
+function createTransport(name: Config['transport'], handlers: TransportHandlers): Transport {
+  return name === 'terminal' ? createTerminalTransport(handlers) : createWhatsAppTransport(handlers);
+}
 
 async function main() {
+  // Refuse to start with an invalid config file rather than silently using defaults
+  if (configErrors.length > 0) {
+    console.error('❌ Invalid configuration:');
+    for (const error of configErrors) {
+      console.error(`   ${error}`);
+    }
+    process.exit(1);
+  }
+
   // Check for --force flag to kill existing instances
   const forceMode = process.argv.includes('--force');
+  // --terminal runs against stdin/stdout instead of WhatsApp
+  const transportName = process.argv.includes('--terminal') ? 'terminal' : config.transport;
 
   if (forceMode) {
     console.log('🔄 Force mode: cleaning up any existing instances...\n');
@@ -42,33 +70,82 @@ async function main() {
   console.log(`  Projects root: ${config.projectsRoot}`);
   console.log(`  Group prefix: "${config.groupPrefix}"`);
   console.log(`  Max queue size: ${config.maxQueueSize}`);
+  console.log(`  Transport: ${transportName}`);
+  console.log(`  Session idle expiry: ${config.sessionIdleMs > 0 ? formatDuration(config.sessionIdleMs) : 'off'}`);
+  console.log(`  HTTP server: ${config.http.enabled ? `http://${config.http.host}:${config.http.port}` : 'off'}`);
+  const alertSinks = getAlertSinks().map((sink) => sink.name);
+  console.log(`  Alerts: ${alertSinks.length > 0 ? alertSinks.join(', ') : 'log only'}`);
+  const { maxTurns, maxContextChars } = config.rollover;
+  const rolloverLimits = [maxTurns > 0 && `${maxTurns} turns`, maxContextChars > 0 && `${maxContextChars} chars`].filter(Boolean);
+  console.log(`  Session rollover: ${rolloverLimits.length > 0 ? `after ${rolloverLimits.join(' or ')}` : 'off'}`);
+  if (existsSync(CONFIG_FILE)) {
+    console.log(`  Config file: ${CONFIG_FILE}`);
+  }
   console.log('='.repeat(50));
   console.log();
 
   // Initialize
   ensureProjectsRoot();
-  loadState();
+  const corruption = loadState();
+  if (corruption) {
+    console.error('⚠️  The state file was unreadable and has been set aside:');
+    console.error(`   ${corruption.error}`);
+    console.error(`   Saved as: ${corruption.preservedAs}`);
+    console.error(corruption.recoveredFrom === 'backup'
+      ? '   Sessions were restored from the last backup.'
+      : '   No usable backup - sessions and group registrations start empty.');
+    console.error(`   Details: ${corruption.preservedAs}.report.json\n`);
+  }
 
-  // Create WhatsApp client with router
-  const client = createWhatsAppClient({
-    onMessage: async (message, chat) => {
-      await routeMessage(message, chat, async (text) => {
-        // Get fresh chat object to ensure we can send
-        // The original chat from message.getChat() may be stale for
-        // fromMe messages sent from another device (phone, web browser)
-        const freshChat = await client.getChatById(chat.id._serialized);
-        await freshChat.sendMessage(text);
-      });
-    },
+  // Archive sessions nobody has used for a while
+  const sweeper = config.sessionIdleMs > 0
+    ? startSessionSweeper({
+      idleMs: config.sessionIdleMs,
+      intervalMs: config.sessionSweepIntervalMs,
+      isBusy: isGroupBusy,
+      notify: async (groupId, session) => {
+        const sent = await notifyGroup(
+          groupId,
+          `💤 Session archived (${session.reason}). The next message starts a fresh conversation. ` +
+          'Send !restore to pick up where you left off.'
+        );
+        if (!sent) {
+          createLogger({ groupId, groupName: session.groupName }).debug('No chat handle yet, archived session not announced');
+        }
+      },
+    })
+    : undefined;
+
+  // Create transport with router
+  const transport = createTransport(transportName, {
+    onMessage: routeMessage,
   });
 
+  // Health and status endpoints for supervisors and monitoring
+  let httpServer: HttpServer | undefined;
+  if (config.http.enabled) {
+    try {
+      httpServer = await startHttpServer({
+        host: config.http.host,
+        port: config.http.port,
+        disconnectedGraceMs: config.http.disconnectedGraceMs,
+        allowedHosts: config.http.allowedHosts,
+        getConnection: () => transport.getState(),
+      });
+    } catch (error) {
+      log('error', `Could not start the HTTP server on ${config.http.host}:${config.http.port}:`, getErrorMessage(error));
+    }
+  }
+
   // Graceful shutdown (lockfile cleanup is handled automatically)
   const shutdown = async () => {
     console.log('\n\n🛑 Shutting down...');
+    sweeper?.stop();
+    await httpServer?.close();
     try {
-      await client.destroy();
+      await transport.stop();
     } catch (error) {
-      log('warn', 'Error destroying client:', error);
+      log('warn', `Error stopping ${transport.name} transport:`, error);
     }
     process.exit(0);
   };
@@ -76,19 +153,10 @@ async function main() {
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
-  // Start the client with timeout
-  log('info', 'Initializing WhatsApp client...');
-  log('info', 'This may take a minute on first run (downloading browser)...');
-
-  const initTimeout = 300000; // 5 minutes (WhatsApp Web can be slow)
-  const timeoutPromise = new Promise((_, reject) => {
-    setTimeout(() => reject(new Error(`Initialization timed out after ${initTimeout / 1000}s`)), initTimeout);
-  });
-
   try {
-    await Promise.race([client.initialize(), timeoutPromise]);
+    await transport.start();
   } catch (error) {
-    log('error', 'Failed to initialize WhatsApp client:', error);
+    log('error', `Failed to start ${transport.name} transport:`, error);
     throw error;
   }
 }
@@ -12,7 +12,7 @@
 import { existsSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { execSync } from 'child_process';
-import { log } from './config.js';
+import { log } from './logger.js';
 
 const LOCKFILE_NAME = '.whatsclaude.pid';
 
@@ -193,6 +193,18 @@ export function acquireLock(): LockResult {
   return { success: true };
 }
 
+/**
+ * Get the PID of another running instance holding the lock
+ *
+ * For tools that must not write the state files while the bridge runs.
+ *
+ * @returns The PID, or null if no other instance is running
+ */
+export function getLockHolder(): number | null {
+  const pid = readLockfile();
+  return pid !== null && pid !== process.pid && isProcessRunning(pid) ? pid : null;
+}
+
 /**
  * Release the lock (called automatically on exit, but can be called manually)
  */
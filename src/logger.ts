@@ -0,0 +1,154 @@
+/**
+ * Structured logging for WhatsClaude
+ *
+ * Log lines carry context fields (transport, groupId, messageId, sessionId
+ * and a correlation ID that follows one message from routing through the
+ * queue, the SDK call and the reply). The console gets readable text or JSON lines
+ * (LOG_FORMAT); LOG_FILE additionally writes JSON lines to a file that is
+ * rotated by size.
+ */
+
+import { appendFileSync, existsSync, renameSync, rmSync, statSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { dirname } from 'path';
+import { format } from 'util';
+import { config } from './config.js';
+import { ensureDir } from './utils.js';
+import type { Config } from './types.js';
+
+type Level = Config['logLevel'];
+
+const LEVELS: Level[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Context attached to every line a logger writes
+ */
+export interface LogFields {
+  correlationId?: string;
+  /** Transport the line is about, for connection logs */
+  transport?: string;
+  groupId?: string;
+  groupName?: string;
+  messageId?: string;
+  sessionId?: string;
+  [key: string]: string | number | undefined;
+}
+
+export interface Logger {
+  readonly fields: LogFields;
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  log(level: Level, ...args: unknown[]): void;
+  /** A logger that adds (or overrides) fields */
+  child(fields: LogFields): Logger;
+}
+
+// Size of the log file being written, so rotation doesn't stat on every line
+let current: { path: string; size: number } | undefined;
+
+/**
+ * Generate a short ID that ties together the log lines of one message
+ */
+export function newCorrelationId(): string {
+  return randomBytes(4).toString('hex');
+}
+
+/**
+ * Build the JSON form of a log line
+ */
+export function formatJsonLine(level: Level, fields: LogFields, args: unknown[], ts: Date = new Date()): string {
+  const error = args.find((arg): arg is Error => arg instanceof Error);
+  const message = format(...args.map((arg) => (arg instanceof Error ? arg.message : arg)));
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  return JSON.stringify({
+    ts: ts.toISOString(),
+    level,
+    msg: message,
+    ...defined,
+    ...(error?.stack && { stack: error.stack }),
+  });
+}
+
+/**
+ * Move <file> to <file>.1, <file>.1 to <file>.2, ... dropping the oldest
+ */
+export function rotateLogFile(path: string, maxFiles: number): void {
+  rmSync(`${path}.${maxFiles}`, { force: true });
+  for (let n = maxFiles - 1; n >= 1; n--) {
+    if (existsSync(`${path}.${n}`)) {
+      renameSync(`${path}.${n}`, `${path}.${n + 1}`);
+    }
+  }
+  renameSync(path, `${path}.1`);
+}
+
+/**
+ * Append a line to the log file, rotating it once it's too big
+ */
+function writeToFile(line: string): void {
+  const { file: logFile, maxBytes, maxFiles } = config.logging;
+  if (!logFile) return;
+
+  try {
+    if (current?.path !== logFile) {
+      ensureDir(dirname(logFile));
+      current = { path: logFile, size: existsSync(logFile) ? statSync(logFile).size : 0 };
+    }
+    const bytes = Buffer.byteLength(line) + 1;
+    if (maxBytes > 0 && current.size > 0 && current.size + bytes > maxBytes) {
+      rotateLogFile(logFile, maxFiles);
+      current.size = 0;
+    }
+    appendFileSync(logFile, `${line}\n`);
+    current.size += bytes;
+  } catch (error) {
+    // Never let logging take the bridge down - fall back to the console only
+    console.error(`[ERROR] Could not write to ${logFile}:`, error instanceof Error ? error.message : error);
+    current = undefined;
+  }
+}
+
+function write(level: Level, fields: LogFields, args: unknown[]): void {
+  if (LEVELS.indexOf(level) < LEVELS.indexOf(config.logLevel)) {
+    return;
+  }
+
+  const { format: outputFormat, file } = config.logging;
+  const json = outputFormat === 'json' || file ? formatJsonLine(level, fields, args) : undefined;
+  const consoleMethod = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  if (outputFormat === 'json') {
+    consoleMethod(json);
+  } else {
+    // Text lines show the transport, group and correlation ID; the other fields are in the JSON form
+    const tags = [level.toUpperCase(), fields.transport, fields.groupName, fields.correlationId].filter(Boolean);
+    consoleMethod(tags.map((tag) => `[${tag}]`).join(' '), ...args);
+  }
+
+  if (json && file) {
+    writeToFile(json);
+  }
+}
+
+/**
+ * Create a logger with the given context fields
+ */
+export function createLogger(fields: LogFields = {}): Logger {
+  return {
+    fields,
+    debug: (...args) => write('debug', fields, args),
+    info: (...args) => write('info', fields, args),
+    warn: (...args) => write('warn', fields, args),
+    error: (...args) => write('error', fields, args),
+    log: (level, ...args) => write(level, fields, args),
+    child: (extra) => createLogger({ ...fields, ...extra }),
+  };
+}
+
+/**
+ * Log a message if the level is high enough
+ */
+export function log(level: Level, ...args: unknown[]): void {
+  write(level, {}, args);
+}
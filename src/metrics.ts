@@ -0,0 +1,178 @@
+/**
+ * Metrics registry for WhatsClaude
+ *
+ * A minimal in-process registry (counters, gauges, histograms with labels)
+ * rendered in the Prometheus text exposition format at /metrics on the
+ * HTTP server. The metrics the bridge records are defined at the bottom.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  /** Sample lines, without HELP/TYPE */
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+  get(labels?: Labels): number;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+  get(labels?: Labels): number;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  /** Number of observations */
+  count(labels?: Labels): number;
+}
+
+const registry: Map<string, Metric> = new Map();
+
+/**
+ * Default histogram buckets, in seconds (Claude queries take seconds to many minutes)
+ */
+const DURATION_BUCKETS = [1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Stable series key for a label set
+ */
+function seriesKey(labels: Labels = {}): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}` : '';
+}
+
+function register(metric: Metric): void {
+  if (registry.has(metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  registry.set(metric.name, metric);
+}
+
+/**
+ * Create a counter (a value that only goes up)
+ */
+export function createCounter(name: string, help: string): Counter {
+  const series: Map<string, { labels: Labels; value: number }> = new Map();
+
+  register({
+    name,
+    help,
+    type: 'counter',
+    render: () => [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+
+  return {
+    inc: (labels = {}, value = 1) => {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+    get: (labels) => series.get(seriesKey(labels))?.value ?? 0,
+  };
+}
+
+/**
+ * Create a gauge (a value that goes up and down)
+ *
+ * @param collect - Read the current values at render time instead of set()
+ */
+export function createGauge(name: string, help: string, collect?: () => [Labels, number][]): Gauge {
+  const series: Map<string, { labels: Labels; value: number }> = new Map();
+  const current = () => (collect ? collect().map(([labels, value]) => ({ labels, value })) : [...series.values()]);
+
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => current().map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+
+  return {
+    set: (labels, value) => {
+      series.set(seriesKey(labels), { labels, value });
+    },
+    get: (labels) => current().find((entry) => seriesKey(entry.labels) === seriesKey(labels))?.value ?? 0,
+  };
+}
+
+/**
+ * Create a histogram with cumulative buckets
+ */
+export function createHistogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS): Histogram {
+  const series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () => [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`),
+      `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${name}_sum${formatLabels(labels)} ${sum}`,
+      `${name}_count${formatLabels(labels)} ${count}`,
+    ]),
+  });
+
+  return {
+    observe: (labels, value) => {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+    count: (labels) => series.get(seriesKey(labels))?.count ?? 0,
+  };
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Content type of renderMetrics() output
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Messages received in Claude groups, by kind (text, media) */
+export const messagesReceived = createCounter('whatsclaude_messages_received_total', 'Messages received in Claude groups');
+
+/** Messages not passed to Claude, by reason */
+export const messagesRejected = createCounter('whatsclaude_messages_rejected_total', 'Messages rejected before reaching Claude');
+
+/** Claude query durations, by outcome (success, error, cancelled) */
+export const queryDuration = createHistogram('whatsclaude_claude_query_duration_seconds', 'Duration of Claude queries in seconds');
+
+/** Tool uses Claude made, by tool */
+export const toolUses = createCounter('whatsclaude_tool_uses_total', 'Tool uses by Claude');
+
+/** Errors, by where they happened */
+export const errors = createCounter('whatsclaude_errors_total', 'Errors while handling messages');
@@ -0,0 +1,235 @@
+/**
+ * Interactive permission approval for WhatsClaude
+ *
+ * Risky tool uses (rm, git push, network fetches, ...) are paused and
+ * an approval prompt is posted to the group. The next "yes"/"no" reply
+ * resumes the query; no reply within the timeout denies it.
+ */
+
+import type { CanUseTool, PermissionResult } from '@anthropic-ai/claude-agent-sdk';
+import { isAbsolute, relative, resolve } from 'path';
+import { config } from './config.js';
+import { log } from './logger.js';
+import { truncate, formatDuration } from './utils.js';
+import type { ApprovalRule } from './types.js';
+
+const APPROVE_WORDS = ['yes', 'y', 'approve', 'allow', 'ok', '👍'];
+const DENY_WORDS = ['no', 'n', 'deny', 'reject', '👎'];
+
+/**
+ * Tools that write files; they may only touch files inside the project
+ */
+export const FILE_EDIT_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+/**
+ * An approval prompt waiting for a reply
+ */
+interface PendingApproval {
+  resolve: (approved: boolean, by?: string) => void;
+}
+
+// Approvals waiting for a reply (groupId → oldest first)
+const pendingApprovals: Map<string, PendingApproval[]> = new Map();
+
+/**
+ * Get the input field a rule pattern is matched against
+ */
+function getPrimaryInput(toolName: string, input: Record<string, unknown>): string {
+  switch (toolName) {
+    case 'Bash':
+      return String(input.command ?? '');
+    case 'WebFetch':
+      return String(input.url ?? '');
+    case 'WebSearch':
+      return String(input.query ?? '');
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return String(input.file_path ?? '');
+    case 'NotebookEdit':
+      return String(input.notebook_path ?? '');
+    default:
+      return JSON.stringify(input);
+  }
+}
+
+/**
+ * Find the first rule a tool use matches
+ */
+export function findMatchingRule(
+  toolName: string,
+  input: Record<string, unknown>,
+  rules: ApprovalRule[] = config.approval.rules
+): ApprovalRule | undefined {
+  const primary = getPrimaryInput(toolName, input);
+  return rules.find((rule) => {
+    if (rule.tool !== toolName) return false;
+    return !rule.pattern || new RegExp(rule.pattern, 'i').test(primary);
+  });
+}
+
+/**
+ * Tools that need a permission callback because some of their uses are gated
+ *
+ * These must not be in the SDK's allowedTools, or it never asks.
+ */
+export function getGatedTools(rules: ApprovalRule[] = config.approval.rules): string[] {
+  return [...new Set(rules.map((rule) => rule.tool))];
+}
+
+/**
+ * Check whether a group has an approval prompt waiting for a reply
+ */
+export function hasPendingApproval(groupId: string): boolean {
+  return (pendingApprovals.get(groupId)?.length ?? 0) > 0;
+}
+
+/**
+ * Parse a reply as approve/deny
+ *
+ * @returns true (approve), false (deny) or null (not an approval reply)
+ */
+export function parseApprovalReply(text: string): boolean | null {
+  const normalized = text.trim().toLowerCase().replace(/[.!]+$/, '');
+  if (APPROVE_WORDS.includes(normalized)) return true;
+  if (DENY_WORDS.includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * Resolve the group's oldest pending approval with a chat reply
+ *
+ * @returns true if the message was consumed as an approval reply
+ */
+export function resolveApproval(groupId: string, text: string, senderName: string): boolean {
+  const pending = pendingApprovals.get(groupId);
+  if (!pending || pending.length === 0) {
+    return false;
+  }
+
+  const approved = parseApprovalReply(text);
+  if (approved === null) {
+    return false;
+  }
+
+  pending[0].resolve(approved, senderName);
+  return true;
+}
+
+/**
+ * Post an approval prompt and wait for a reply
+ *
+ * Resolves false on timeout or when the signal aborts (e.g. !stop).
+ */
+export function requestApproval(
+  groupId: string,
+  description: string,
+  send: (text: string) => Promise<void>,
+  signal: AbortSignal,
+  timeoutMs: number = config.approval.timeoutMs
+): Promise<boolean> {
+  return new Promise((resolvePromise) => {
+    if (signal.aborted) {
+      resolvePromise(false);
+      return;
+    }
+
+    const queue = pendingApprovals.get(groupId) ?? [];
+    pendingApprovals.set(groupId, queue);
+
+    let settled = false;
+    const entry: PendingApproval = {
+      resolve: (approved, by) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal.removeEventListener('abort', onAbort);
+        queue.splice(queue.indexOf(entry), 1);
+        if (queue.length === 0) pendingApprovals.delete(groupId);
+
+        if (by) {
+          log('info', `Approval for "${description}" ${approved ? 'granted' : 'denied'} by ${by}`);
+          send(approved ? `✅ Approved by ${by}.` : `🚫 Denied by ${by}.`).catch(() => {});
+        }
+        resolvePromise(approved);
+      },
+    };
+
+    const timer = setTimeout(() => {
+      log('info', `Approval for "${description}" timed out`);
+      send(`⌛ No reply within ${formatDuration(timeoutMs)} - denied.`).catch(() => {});
+      entry.resolve(false);
+    }, timeoutMs);
+
+    const onAbort = () => entry.resolve(false);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    queue.push(entry);
+    send(
+      `🔐 Claude wants to ${description}\n\n` +
+      `Reply "yes" to allow or "no" to deny (denied automatically in ${formatDuration(timeoutMs)}).`
+    ).catch((error) => {
+      log('error', 'Failed to send approval prompt:', error);
+      entry.resolve(false);
+    });
+  });
+}
+
+/**
+ * Create an SDK permission callback for a group
+ *
+ * Tool uses that match an approval rule wait for a chat reply;
+ * everything else is allowed. Pass the task's abort signal so a
+ * !stop also withdraws a pending prompt.
+ */
+export function createCanUseTool(
+  groupId: string,
+  send: (text: string) => Promise<void>,
+  taskSignal?: AbortSignal
+): CanUseTool {
+  return async (toolName, input, { signal }): Promise<PermissionResult> => {
+    const rule = findMatchingRule(toolName, input);
+    if (!rule) {
+      return { behavior: 'allow', updatedInput: input };
+    }
+
+    const detail = truncate(getPrimaryInput(toolName, input), 200);
+    const description = `${rule.description}:\n\`${detail}\``;
+    const approved = await requestApproval(groupId, description, send, taskSignal ?? signal);
+
+    return approved
+      ? { behavior: 'allow', updatedInput: input }
+      : { behavior: 'deny', message: `The user did not approve this action (${rule.description}).` };
+  };
+}
+
+/**
+ * Wrap a permission callback so it denies every tool outside `permittedTools`
+ * and file edits outside the project
+ *
+ * The SDK asks the callback about any tool that isn't pre-approved, so
+ * without this a tool the group left out would be allowed. File edit tools
+ * must not be pre-approved either: acceptEdits still allows edits inside
+ * the project without asking, but edits elsewhere (the group settings, the
+ * session store) reach this check. With no callback to wrap, permitted
+ * tools are allowed.
+ */
+export function restrictTools(permittedTools: string[], projectPath: string, canUseTool?: CanUseTool): CanUseTool {
+  return async (toolName, input, options): Promise<PermissionResult> => {
+    if (!permittedTools.includes(toolName)) {
+      log('warn', `Denied ${toolName}: not among the tools allowed for this request`);
+      return { behavior: 'deny', message: `${toolName} is not available in this group.` };
+    }
+
+    if (FILE_EDIT_TOOLS.includes(toolName)) {
+      const target = relative(projectPath, resolve(projectPath, getPrimaryInput(toolName, input)));
+      if (target.startsWith('..') || isAbsolute(target)) {
+        log('warn', `Denied ${toolName} outside the project: ${getPrimaryInput(toolName, input)}`);
+        return { behavior: 'deny', message: 'Only files inside the project directory can be changed.' };
+      }
+    }
+
+    return canUseTool ? canUseTool(toolName, input, options) : { behavior: 'allow', updatedInput: input };
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Progress updates for long-running Claude tasks
+ *
+ * Turns tool_use blocks from the SDK stream into short status lines
+ * ("Editing src/app.ts…") and sends them to the group, throttled,
+ * once a task has been running longer than a threshold.
+ */
+
+import { relative, isAbsolute } from 'path';
+import { log } from './logger.js';
+import { truncate, getErrorMessage } from './utils.js';
+
+export interface ProgressReporterOptions {
+  /** Send a progress line to the chat */
+  send: (text: string) => Promise<void>;
+  /** Don't send anything until the task has run this long */
+  thresholdMs: number;
+  /** Minimum time between two progress messages */
+  intervalMs: number;
+  /** Project directory, used to shorten file paths */
+  projectPath?: string;
+}
+
+export interface ProgressReporter {
+  /** Record a tool use seen in the SDK stream */
+  report(toolName: string, input: Record<string, unknown>): void;
+  /** Stop sending updates (call when the task finishes) */
+  stop(): void;
+}
+
+/**
+ * Show a path relative to the project directory when it lives inside it
+ */
+function displayPath(path: unknown, projectPath?: string): string {
+  if (typeof path !== 'string') {
+    return 'a file';
+  }
+  if (projectPath && isAbsolute(path)) {
+    const rel = relative(projectPath, path);
+    if (rel && !rel.startsWith('..') && !isAbsolute(rel)) {
+      return rel;
+    }
+  }
+  return path;
+}
+
+/**
+ * Describe a tool use as a short human-readable status line
+ */
+export function describeToolUse(
+  toolName: string,
+  input: Record<string, unknown>,
+  projectPath?: string
+): string {
+  switch (toolName) {
+    case 'Read':
+      return `Reading ${displayPath(input.file_path, projectPath)}…`;
+    case 'Write':
+      return `Writing ${displayPath(input.file_path, projectPath)}…`;
+    case 'Edit':
+    case 'MultiEdit':
+      return `Editing ${displayPath(input.file_path, projectPath)}…`;
+    case 'Bash':
+      return `Running \`${truncate(String(input.command ?? ''), 60)}\`…`;
+    case 'Glob':
+      return `Looking for files matching \`${input.pattern}\`…`;
+    case 'Grep':
+      return `Searching for \`${truncate(String(input.pattern ?? ''), 60)}\`…`;
+    case 'WebSearch':
+      return `Searching the web for "${truncate(String(input.query ?? ''), 60)}"…`;
+    case 'WebFetch':
+      return `Fetching ${input.url}…`;
+    default:
+      return `Using ${toolName}…`;
+  }
+}
+
+/**
+ * Create a throttled progress reporter for one Claude task
+ *
+ * Only the most recent tool use is sent; intermediate ones are
+ * dropped so the group sees at most one update per interval.
+ */
+export function createProgressReporter(options: ProgressReporterOptions): ProgressReporter {
+  const { send, thresholdMs, intervalMs, projectPath } = options;
+  const startedAt = Date.now();
+  let lastSentAt = 0;
+  let pending: string | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const flush = () => {
+    timer = null;
+    if (stopped || !pending) {
+      return;
+    }
+    const text = pending;
+    pending = null;
+    lastSentAt = Date.now();
+    // Progress is best-effort; the final response still gets sent
+    send(text).catch((error) => {
+      log('warn', 'Failed to send progress update:', getErrorMessage(error));
+    });
+  };
+
+  const schedule = () => {
+    if (timer || stopped) {
+      return;
+    }
+    const sendAt = Math.max(startedAt + thresholdMs, lastSentAt + intervalMs);
+    timer = setTimeout(flush, Math.max(0, sendAt - Date.now()));
+  };
+
+  return {
+    report(toolName, input) {
+      if (stopped) {
+        return;
+      }
+      pending = describeToolUse(toolName, input, projectPath);
+      schedule();
+    },
+    stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
@@ -3,9 +3,27 @@
  */
 
 import { existsSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import { config, log } from './config.js';
+import { basename, dirname, join } from 'path';
+import { config, readSettingsFile, resolveGroupSettings, validateGroupSettings } from './config.js';
+import { log } from './logger.js';
 import { ensureDir } from './utils.js';
+import type { GroupSettings } from './types.js';
+
+/**
+ * Directory next to the projects that holds each group's settings file
+ *
+ * The settings decide who may do what, so they live outside the project
+ * directory, where Claude can edit files.
+ */
+export const GROUP_SETTINGS_DIR = '.whatsclaude-groups';
+
+/**
+ * Where settings files used to live, relative to the project directory
+ */
+const LEGACY_SETTINGS_FILE = join('.whatsclaude', 'settings.json');
+
+// Projects already warned about a settings file in the old place
+const legacyWarned = new Set<string>();
 
 /**
  * Convert a WhatsApp group name to a valid directory name
@@ -92,3 +110,31 @@ export function ensureProjectExists(projectPath: string, groupName: string): voi
     log('info', `Project "${projectName}" initialized`);
   }
 }
+
+/**
+ * Get the path of a group's settings file: <projectsRoot>/.whatsclaude-groups/<project>.json
+ */
+export function getGroupSettingsPath(projectPath: string): string {
+  return join(dirname(projectPath), GROUP_SETTINGS_DIR, `${basename(projectPath)}.json`);
+}
+
+/**
+ * Get a group's effective settings
+ *
+ * Reads the group's settings file on every call, so edits take effect on
+ * the next message. An invalid file is logged and ignored.
+ */
+export function getGroupSettings(projectPath: string): GroupSettings {
+  const path = getGroupSettingsPath(projectPath);
+  if (!existsSync(path) && existsSync(join(projectPath, LEGACY_SETTINGS_FILE)) && !legacyWarned.has(projectPath)) {
+    legacyWarned.add(projectPath);
+    log('warn', `Ignoring ${join(projectPath, LEGACY_SETTINGS_FILE)}: group settings now live in ${path}`);
+  }
+
+  const errors: string[] = [];
+  const overrides = readSettingsFile<Partial<GroupSettings>>(path, validateGroupSettings, errors);
+  for (const error of errors) {
+    log('warn', `Ignoring group settings: ${error}`);
+  }
+  return resolveGroupSettings(overrides);
+}
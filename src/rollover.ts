@@ -0,0 +1,222 @@
+/**
+ * Session rollover for WhatsClaude
+ *
+ * Resuming the same SDK session forever makes long-lived groups slow and
+ * expensive. Once a session passes the configured turn or size threshold,
+ * Claude summarizes it and the group continues in a new session seeded with
+ * that summary and the project's CLAUDE.md. The old session is archived (so
+ * !restore can bring it back) and the new one records its lineage.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { runTextQuery, type TextQueryOptions } from './claude.js';
+import { config } from './config.js';
+import { createLogger, type Logger } from './logger.js';
+import { formatTranscript } from './export.js';
+import { appendToHistory, streamHistory } from './history.js';
+import { getGroupSettings } from './projects.js';
+import { archiveSession, getActiveSessionName, getSession, setSession, DEFAULT_SESSION_NAME } from './sessions.js';
+import { recordUsage } from './usage.js';
+import { getErrorMessage } from './utils.js';
+import type { SessionInfo, StoredMessage } from './types.js';
+
+/**
+ * Longest CLAUDE.md passed on to the new session
+ */
+const MAX_INSTRUCTIONS_CHARS = 20_000;
+
+const SUMMARY_PROMPT = [
+  'This conversation is about to continue in a fresh session that will only see your summary of it.',
+  'Write that summary: the goal of the work, decisions made and why, the current state of the code',
+  '(files changed, what works, what doesn\'t), open questions, and agreed next steps.',
+  'Be specific and concise. Reply with the summary only.',
+].join(' ');
+
+export interface RolloverParams {
+  groupId: string;
+  groupName: string;
+  projectPath: string;
+  abortController?: AbortController;
+  /** Logger of the message that triggered the rollover */
+  logger?: Logger;
+}
+
+export interface RolloverResult {
+  previous: SessionInfo;
+  session: SessionInfo;
+  reason: string;
+  summary: string;
+}
+
+/**
+ * Check whether a session has grown past the rollover thresholds
+ *
+ * @returns Why it should roll over, or undefined if it shouldn't
+ */
+export function getRolloverReason(session: SessionInfo, limits: typeof config.rollover = config.rollover): string | undefined {
+  const turns = session.turns ?? 0;
+  const chars = session.contextChars ?? 0;
+  if (limits.maxTurns > 0 && turns >= limits.maxTurns) {
+    return `${turns} turns`;
+  }
+  if (limits.maxContextChars > 0 && chars >= limits.maxContextChars) {
+    return `${Math.round(chars / 1000)}k characters`;
+  }
+  return undefined;
+}
+
+/**
+ * Read the project's CLAUDE.md, if it has one
+ */
+export function readProjectInstructions(projectPath: string): string | undefined {
+  const path = join(projectPath, 'CLAUDE.md');
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  const content = readFileSync(path, 'utf-8').trim();
+  return content ? content.slice(0, MAX_INSTRUCTIONS_CHARS) : undefined;
+}
+
+/**
+ * Build the first prompt of the new session
+ */
+export function buildSeedPrompt(summary: string, instructions: string | undefined): string {
+  return [
+    'You are continuing an earlier conversation with this WhatsApp group that was getting too long.',
+    'Here is your summary of it:',
+    '',
+    summary,
+    ...(instructions ? ['', 'Project instructions (CLAUDE.md):', '', instructions] : []),
+    '',
+    'Reply "OK" - the group\'s next message follows.',
+  ].join('\n');
+}
+
+/**
+ * Get the history of a session: messages of its named session since it was
+ * last rolled over (including the summary it started from)
+ */
+async function readSessionHistory(projectPath: string, sessionName: string, since: string | undefined) {
+  const messages: StoredMessage[] = [];
+  for await (const m of streamHistory(projectPath, { since: since ? new Date(since) : undefined })) {
+    if ((m.session ?? DEFAULT_SESSION_NAME) === sessionName) messages.push(m);
+  }
+  return messages;
+}
+
+/**
+ * Run a text query for the rollover, recording what it cost
+ */
+type Ask = (prompt: string, options?: Pick<TextQueryOptions, 'resume' | 'forkSession'>) => Promise<{ sessionId?: string; result: string }>;
+
+/**
+ * Have Claude summarize a session
+ *
+ * Asks a fork of the SDK session (which also saw tool results), falling
+ * back to the bridged history if the session can't be resumed.
+ */
+async function summarizeSession(params: RolloverParams, session: SessionInfo, ask: Ask, logger: Logger): Promise<string> {
+  const { groupId, projectPath } = params;
+
+  try {
+    const { result } = await ask(SUMMARY_PROMPT, { resume: session.sessionId, forkSession: true });
+    if (result.trim()) {
+      return result.trim();
+    }
+  } catch (error) {
+    if (params.abortController?.signal.aborted) throw error;
+    logger.warn(`Could not summarize session ${session.sessionId}, using the history:`, getErrorMessage(error));
+  }
+
+  const messages = await readSessionHistory(projectPath, getActiveSessionName(groupId), session.rolledOverAt);
+  const prompt = `${SUMMARY_PROMPT}\n\nThe conversation so far:\n\n${formatTranscript(messages)}`;
+  return (await ask(prompt)).result.trim();
+}
+
+/**
+ * Roll the group's session over if it has grown past the thresholds
+ *
+ * On failure the group keeps its current session (and tries again next time).
+ *
+ * @returns What happened, or undefined if no rollover was needed or it failed
+ */
+export async function rolloverIfNeeded(params: RolloverParams): Promise<RolloverResult | undefined> {
+  const { groupId, groupName, projectPath, abortController } = params;
+  const previous = getSession(groupId);
+  // A pending fork must branch off the session as it is
+  if (!previous || previous.fork) {
+    return undefined;
+  }
+  const reason = getRolloverReason(previous);
+  if (!reason) {
+    return undefined;
+  }
+
+  const logger = (params.logger ?? createLogger({ groupId, groupName })).child({ sessionId: previous.sessionId });
+  logger.info(`Rolling over session ${previous.sessionId} (${reason})`);
+  const model = getGroupSettings(projectPath).model;
+
+  const ask: Ask = async (prompt, options) => {
+    const response = await runTextQuery(prompt, { cwd: projectPath, model, abortController, ...options });
+    if (response.usage) {
+      recordUsage(projectPath, {
+        ts: new Date().toISOString(),
+        groupId,
+        messageId: `rollover-${previous.sessionId}`,
+        senderId: 'system',
+        senderName: 'System',
+        kind: 'rollover',
+        ...response.usage,
+      });
+    }
+    return response;
+  };
+
+  let summary: string;
+  let sessionId: string | undefined;
+  try {
+    summary = await summarizeSession(params, previous, ask, logger);
+    if (!summary) {
+      throw new Error('empty summary');
+    }
+    ({ sessionId } = await ask(buildSeedPrompt(summary, readProjectInstructions(projectPath))));
+    if (!sessionId) {
+      throw new Error('no session ID for the new session');
+    }
+  } catch (error) {
+    if (!abortController?.signal.aborted) {
+      logger.warn('Session rollover failed, keeping the current session:', getErrorMessage(error));
+    }
+    return undefined;
+  }
+
+  const now = new Date().toISOString();
+  archiveSession(groupId, `rolled over after ${reason}`, logger);
+  const session: SessionInfo = {
+    sessionId,
+    projectPath,
+    groupName,
+    lastActivity: now,
+    turns: 0,
+    contextChars: summary.length,
+    lineage: [...(previous.lineage ?? []), previous.sessionId],
+    rolledOverAt: now,
+  };
+  setSession(groupId, session);
+
+  appendToHistory(projectPath, {
+    id: `rollover-${sessionId}`,
+    ts: now,
+    groupId,
+    groupName,
+    role: 'system',
+    sender: 'system',
+    senderName: 'System',
+    content: `Session rolled over after ${reason}. Summary carried over:\n\n${summary}`,
+    session: getActiveSessionName(groupId),
+  });
+
+  logger.child({ sessionId }).info(`Continuing in session ${sessionId} (${session.lineage?.length} earlier session(s))`);
+  return { previous, session, reason, summary };
+}
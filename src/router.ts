@@ -6,16 +6,71 @@
  */
 
 import PQueue from 'p-queue';
-import type { Message, Chat } from 'whatsapp-web.js';
-import { config, log, formatBotResponse, formatServerMessage } from './config.js';
-import { getProjectPath, ensureProjectExists, sanitizeProjectName } from './projects.js';
+import { config, formatBotResponse, formatServerMessage } from './config.js';
+import { createLogger, newCorrelationId, type Logger } from './logger.js';
+import { getProjectPath, ensureProjectExists, sanitizeProjectName, getGroupSettings } from './projects.js';
 import { handleClaudeQuery } from './claude.js';
+import { rolloverIfNeeded } from './rollover.js';
+import { checkBudget } from './usage.js';
+import { createGauge, errors, messagesReceived, messagesRejected } from './metrics.js';
+import { formatBotResponseChunks } from './chunker.js';
+import { createProgressReporter } from './progress.js';
+import { parseCommand, executeCommand, createReply, COMMAND_PREFIX } from './commands.js';
+import { startTask, finishTask } from './tasks.js';
+import { createCanUseTool, resolveApproval, hasPendingApproval, parseApprovalReply } from './permissions.js';
+import { getSenderRole, hasRole, lowestRole, recordDenial } from './access.js';
 import { getRegisteredGroup, registerGroup } from './sessions.js';
 import { truncate, getErrorMessage } from './utils.js';
+import { classifyAttachment, saveAttachment, buildAttachmentPrompt, type PreparedAttachment } from './attachments.js';
+import { getTranscriber, isAudioMedia } from './transcription.js';
+import { createBatcher, combinePrompts } from './batcher.js';
+import type { InboundMessage, ChatHandle, MediaAttachment, Role } from './types.js';
 
 // One queue per group (groupId → queue)
 const queues: Map<string, PQueue> = new Map();
 
+// Most recent chat handle per group, for messages not triggered by a reply
+const chats: Map<string, ChatHandle> = new Map();
+
+/**
+ * A task waiting in a group's queue
+ */
+export interface QueuedTask {
+  /** Correlation ID of the (first) message, as in the logs */
+  id: string;
+  senderName: string;
+  prompt: string;
+  /** ISO timestamp */
+  queuedAt: string;
+}
+
+// Tasks waiting per group, in queue order (a cancelled task stays in the queue but is skipped)
+const waitingTasks: Map<string, QueuedTask[]> = new Map();
+
+/**
+ * A message waiting in a batch, ready to be queued
+ */
+interface BatchedMessage {
+  chat: ChatHandle;
+  projectPath: string;
+  prompt: string;
+  senderName: string;
+  senderId: string;
+  /** Sender's role, which limits the tools Claude may use */
+  role: Role;
+  messageId: string;
+  /** Logger carrying the message's correlation ID */
+  logger: Logger;
+  attachment?: PreparedAttachment;
+}
+
+// Rapid-fire messages are coalesced per group before they are queued
+const batcher = createBatcher<BatchedMessage>(config.batchWindowMs, (groupId, messages) => {
+  enqueueBatch(groupId, messages).catch((error) => {
+    messages[0].logger.error('Failed to queue batched messages:', getErrorMessage(error));
+  });
+});
+
 /**
  * Get or create a queue for a group
  */
@@ -37,41 +92,127 @@ export function getQueueStatus(): Record<string, { size: number; pending: number
   return status;
 }
 
+// Queue depth per group, read when metrics are scraped
+createGauge('whatsclaude_queue_depth', 'Tasks per group queue by state (waiting, running)', () =>
+  [...queues].flatMap(([groupId, queue]) => {
+    const group = chats.get(groupId)?.name ?? groupId;
+    return [
+      [{ group, state: 'waiting' }, queue.size],
+      [{ group, state: 'running' }, queue.pending],
+    ] as [Record<string, string>, number][];
+  })
+);
+
+/**
+ * Get the tasks waiting in a group's queue
+ */
+export function getQueuedTasks(groupId: string): QueuedTask[] {
+  return [...(waitingTasks.get(groupId) ?? [])];
+}
+
+/**
+ * Take a waiting task out of a group's queue
+ *
+ * @returns The cancelled task, or undefined if it isn't waiting (any more)
+ */
+export function cancelQueuedTask(groupId: string, taskId: string): QueuedTask | undefined {
+  const tasks = waitingTasks.get(groupId) ?? [];
+  const index = tasks.findIndex((task) => task.id === taskId);
+  return index === -1 ? undefined : tasks.splice(index, 1)[0];
+}
+
+/**
+ * Check whether a group has a running, queued or batched task
+ */
+export function isGroupBusy(groupId: string): boolean {
+  const queue = queues.get(groupId);
+  return (queue !== undefined && queue.size + queue.pending > 0) || batcher.has(groupId);
+}
+
+/**
+ * Send a server message to a group that has messaged us since startup
+ *
+ * @returns false if no chat handle is known for the group
+ */
+export async function notifyGroup(groupId: string, text: string): Promise<boolean> {
+  const chat = chats.get(groupId);
+  if (!chat) {
+    return false;
+  }
+  await chat.sendMessage(formatServerMessage(text));
+  return true;
+}
+
+/**
+ * Transcribe a voice note and echo the transcript to the group
+ *
+ * @returns The transcript, or null if it couldn't be produced (the group is told why)
+ */
+async function transcribeVoiceNote(
+  media: MediaAttachment,
+  logger: Logger,
+  sendResponse: (text: string) => Promise<void>
+): Promise<string | null> {
+  const transcriber = getTranscriber();
+  if (!transcriber) {
+    await sendResponse(formatServerMessage('🎙️ Voice notes are not enabled on this bridge. Please send text instead.'));
+    return null;
+  }
+
+  let transcript: string;
+  try {
+    transcript = await transcriber.transcribe(media);
+  } catch (error) {
+    logger.error(`Transcription (${transcriber.name}) failed:`, getErrorMessage(error));
+    errors.inc({ source: 'transcription' });
+    await sendResponse(formatServerMessage("🎙️ Couldn't transcribe the voice note. Please try again or send text."));
+    return null;
+  }
+
+  if (!transcript) {
+    await sendResponse(formatServerMessage("🎙️ The voice note seems to be empty - I couldn't hear anything."));
+    return null;
+  }
+
+  logger.info(`Transcribed voice note: "${truncate(transcript)}"`);
+  await sendResponse(formatServerMessage(`🎙️ Transcript: "${transcript}"`));
+  return transcript;
+}
+
 /**
- * Route and process a WhatsApp message
+ * Route and process an inbound message from any transport
  *
  * - Filters for Claude: groups only
+ * - Handles chat commands (!help, !status, ...)
+ * - Batches rapid-fire messages into one prompt
  * - Queues messages for sequential processing
  * - Handles errors gracefully
  */
-export async function routeMessage(
-  message: Message,
-  chat: Chat,
-  sendResponse: (text: string) => Promise<void>
-): Promise<void> {
+export async function routeMessage(message: InboundMessage, chat: ChatHandle): Promise<void> {
+  const sendResponse = (text: string) => chat.sendMessage(text);
+
   // Only handle groups with Claude: prefix
   if (!chat.isGroup || !chat.name.startsWith(config.groupPrefix)) {
     return;
   }
 
-  // Skip media for now
-  if (message.hasMedia) {
-    await sendResponse(formatServerMessage("📎 I can't process media yet. Please describe what you need in text."));
-    return;
-  }
-
-  // Skip empty messages
-  if (!message.body.trim()) {
+  // Skip empty messages (media without a caption is still handled)
+  if (!message.body.trim() && !message.hasMedia) {
     return;
   }
 
-  const groupId = chat.id._serialized;
+  const groupId = chat.id;
   const groupName = chat.name;
   const projectName = sanitizeProjectName(groupName);
+  chats.set(groupId, chat);
+  // Follows the message through the batch, the queue, the Claude query and the reply
+  const logger = createLogger({ correlationId: newCorrelationId(), groupId, groupName, messageId: message.id });
+  messagesReceived.inc({ kind: message.hasMedia ? 'media' : 'text' });
 
   // Check for duplicate group name (different group claiming same project name)
   const registeredGroupId = getRegisteredGroup(projectName);
   if (registeredGroupId && registeredGroupId !== groupId) {
+    messagesRejected.inc({ reason: 'duplicate_project' });
     await sendResponse(formatBotResponse(
       `⚠️ Another group already uses the project name "${projectName}". ` +
       `Please use the original group or rename/delete this one.`
@@ -82,29 +223,20 @@ export async function routeMessage(
   // Register this group if not already registered
   if (!registeredGroupId) {
     registerGroup(projectName, groupId);
-    log('info', `[${groupName}] Registered as owner of project "${projectName}"`);
-  }
-
-  const queue = getQueue(groupId);
-
-  // Check queue size limit
-  if (queue.size >= config.maxQueueSize) {
-    log('warn', `[${groupName}] Queue full (${config.maxQueueSize})`);
-    await sendResponse(formatServerMessage(`⚠️ Queue full (${config.maxQueueSize} messages). Please wait for current tasks to complete.`));
-    return;
+    logger.info(`Registered as owner of project "${projectName}"`);
   }
 
   // Get sender info - handle fromMe messages from other devices gracefully
   let senderName = 'User';
   let senderId = 'unknown';
   try {
-    const contact = await message.getContact();
-    senderName = contact.pushname || contact.number || 'Unknown';
-    senderId = contact.id._serialized;
+    const sender = await message.getSender();
+    senderName = sender.name;
+    senderId = sender.id;
   } catch (error) {
-    // For messages from same account on different device, getContact() may fail
+    // For messages from same account on different device, sender lookup may fail
     // Use fallback values - the message is still valid
-    log('debug', 'Could not get contact info (likely fromMe message from another device)');
+    logger.debug('Could not get contact info (likely fromMe message from another device)');
     if (message.fromMe) {
       senderName = 'You (from another device)';
       senderId = 'self';
@@ -115,41 +247,272 @@ export async function routeMessage(
   const projectPath = getProjectPath(groupName);
   ensureProjectExists(projectPath, groupName);
 
+  // Check the sender against the group's allowlist
+  const settings = getGroupSettings(projectPath);
+  const role = getSenderRole(settings.members, senderId);
+  const deny = async (reason: string) => {
+    messagesRejected.inc({ reason: 'access_denied' });
+    recordDenial({ projectPath, groupId, groupName, messageId: message.id, senderId, senderName, reason, logger });
+    await sendResponse(formatServerMessage(`🚫 ${reason}.`));
+  };
+  if (!role) {
+    await deny(`${senderName} (${senderId}) is not a member of this group`);
+    return;
+  }
+
+  // Replies to a pending approval prompt resume the running query, bypassing the queue
+  if (hasPendingApproval(groupId) && parseApprovalReply(message.body) !== null && !hasRole(role, 'owner')) {
+    await deny(`Only owners can approve tool uses (${senderName} is ${role})`);
+    return;
+  }
+  if (resolveApproval(groupId, message.body, senderName)) {
+    return;
+  }
+
+  const queue = getQueue(groupId);
+
+  // Handle chat commands (!new, !status, ...) without touching the queue
+  const command = parseCommand(message.body);
+  if (command) {
+    try {
+      await executeCommand(command, {
+        groupId,
+        groupName,
+        projectPath,
+        senderId,
+        senderName,
+        role,
+        messageId: message.id,
+        chat,
+        queue: { size: queue.size, pending: queue.pending },
+        clearQueue: () => {
+          const dropped = [...(waitingTasks.get(groupId) ?? []), ...batcher.cancel(groupId)];
+          waitingTasks.delete(groupId);
+          queue.clear();
+          return dropped;
+        },
+        reply: createReply(chat),
+        logger,
+      });
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      logger.error(`Command !${command.name} failed:`, errorMsg);
+      errors.inc({ source: 'command' });
+      await sendResponse(formatServerMessage(`❌ Error: ${errorMsg}`));
+    }
+    return;
+  }
+
+  // Check queue size limit (messages joining a pending batch don't take a new slot)
+  const { maxQueueSize } = settings;
+  if (queue.size >= maxQueueSize && !batcher.has(groupId)) {
+    logger.warn(`Queue full (${maxQueueSize})`);
+    messagesRejected.inc({ reason: 'queue_full' });
+    await sendResponse(formatServerMessage(`⚠️ Queue full (${maxQueueSize} messages). Please wait for current tasks to complete.`));
+    return;
+  }
+
+  // Refuse new queries once the group's budget is spent
+  const overBudget = checkBudget(projectPath, settings.budget);
+  if (overBudget) {
+    logger.warn(`Query refused: ${overBudget}`);
+    messagesRejected.inc({ reason: 'over_budget' });
+    await sendResponse(formatServerMessage(`💸 ${overBudget}`));
+    return;
+  }
+
+  // Download and save attachments now - WhatsApp media can expire while queued
+  let prompt = message.body;
+  let attachment: PreparedAttachment | undefined;
+  if (message.hasMedia) {
+    let media: MediaAttachment | null = null;
+    try {
+      media = await message.downloadMedia();
+    } catch (error) {
+      logger.warn('Failed to download media:', getErrorMessage(error));
+    }
+
+    if (!media) {
+      messagesRejected.inc({ reason: 'media_download' });
+      await sendResponse(formatServerMessage("📎 Couldn't download the attachment. Please try sending it again."));
+      return;
+    }
+
+    if (isAudioMedia(message.mediaType, media.mimetype)) {
+      // Voice notes: transcribe, echo for confirmation, then treat as text
+      const transcript = await transcribeVoiceNote(media, logger, sendResponse);
+      if (!transcript) {
+        messagesRejected.inc({ reason: 'voice_note' });
+        return;
+      }
+      prompt = message.body.trim() ? `${message.body.trim()}\n\n${transcript}` : transcript;
+    } else {
+      const kind = classifyAttachment(message.mediaType, media.mimetype);
+      if (!kind) {
+        messagesRejected.inc({ reason: 'media_unsupported' });
+        await sendResponse(formatServerMessage(
+          `📎 I can't process ${message.mediaType ?? 'this'} media yet. Images, documents and voice notes are supported.`
+        ));
+        return;
+      }
+
+      attachment = saveAttachment(projectPath, message.id, media, kind);
+      logger.info(`Saved ${kind} attachment to ${attachment.info.path}`);
+      prompt = buildAttachmentPrompt(message.body, attachment.info);
+    }
+  }
+
+  batcher.add(groupId, {
+    chat,
+    projectPath,
+    prompt,
+    senderName,
+    senderId,
+    role,
+    messageId: message.id,
+    logger,
+    attachment,
+  });
+}
+
+/**
+ * Queue a batch of messages from one group as a single Claude task
+ */
+async function enqueueBatch(groupId: string, messages: BatchedMessage[]): Promise<void> {
+  // Reply in the most recent chat handle (it's the freshest)
+  const { chat, projectPath } = messages[messages.length - 1];
+  const groupName = chat.name;
+  // The batch carries on under its first message's correlation ID
+  const logger = messages[0].logger;
+  const sendResponse = (text: string) => chat.sendMessage(text);
+  const queue = getQueue(groupId);
+
+  // Check queue size limit
+  const { maxQueueSize } = getGroupSettings(projectPath);
+  if (queue.size >= maxQueueSize) {
+    logger.warn(`Queue full (${maxQueueSize})`);
+    messagesRejected.inc({ reason: 'queue_full' });
+    await sendResponse(formatServerMessage(`⚠️ Queue full (${maxQueueSize} messages). Please wait for current tasks to complete.`));
+    return;
+  }
+
+  const prompt = combinePrompts(messages);
+  const senderName = [...new Set(messages.map((m) => m.senderName))].join(', ');
+  const senderId = [...new Set(messages.map((m) => m.senderId))].join(',');
+  // A batch gets the tools of its least privileged sender
+  const role = lowestRole(messages.map((m) => m.role));
+  const messageIds = messages.map((m) => m.messageId);
+  const attachments = messages.flatMap((m) => (m.attachment ? [m.attachment] : []));
+
+  if (messages.length > 1) {
+    logger.info(`Batched ${messages.length} messages from ${senderName}`);
+    for (const batched of messages.slice(1)) {
+      batched.logger.info(`Batched into ${logger.fields.correlationId}`);
+    }
+  }
+
   // Log queue status and notify user if queued
   const queueSize = queue.size + 1; // +1 for this message
   if (queueSize > 1) {
-    log('info', `[${groupName}] Queued message (position ${queueSize})`);
+    logger.info(`Queued message (position ${queueSize})`);
     await sendResponse(formatServerMessage(`📥 Queued (position ${queueSize}). Please wait...`));
   }
 
+  const task: QueuedTask = { id: logger.fields.correlationId!, senderName, prompt, queuedAt: new Date().toISOString() };
+  waitingTasks.set(groupId, [...(waitingTasks.get(groupId) ?? []), task]);
+
   // Add to queue for processing
   queue.add(async () => {
-    log('info', `[${groupName}] ${senderName}: "${truncate(message.body)}"`);
+    if (!cancelQueuedTask(groupId, task.id)) {
+      logger.info('Queued task was cancelled');
+      return;
+    }
+    logger.info(`${senderName}: "${truncate(prompt)}"`);
+
+    // Queries queued before the budget ran out don't get through either
+    const overBudget = checkBudget(projectPath, getGroupSettings(projectPath).budget);
+    if (overBudget) {
+      logger.warn(`Queued query dropped: ${overBudget}`);
+      messagesRejected.inc({ reason: 'over_budget' });
+      await sendResponse(formatServerMessage(`💸 ${overBudget}`));
+      return;
+    }
 
     // Show typing indicator
-    await chat.sendStateTyping();
+    await chat.sendTyping();
+
+    // Track the task so !stop can abort it
+    const controller = startTask(groupId, prompt, senderName);
+
+    // Send throttled "Editing src/app.ts…" updates once the task runs long
+    const progress = createProgressReporter({
+      send: (text) => sendResponse(formatServerMessage(`⏳ ${text}`)),
+      thresholdMs: config.progressThresholdMs,
+      intervalMs: config.progressIntervalMs,
+      projectPath,
+    });
 
     try {
+      // Continue a session that has grown too long in a fresh one, seeded with a summary
+      const rollover = await rolloverIfNeeded({ groupId, groupName, projectPath, abortController: controller, logger });
+      if (rollover) {
+        await sendResponse(formatServerMessage(
+          `🔄 This conversation got long (${rollover.reason}), so Claude continues in a fresh session from a summary. ${COMMAND_PREFIX}restore brings back the old one.`
+        ));
+      }
+
       const response = await handleClaudeQuery({
         groupId,
         groupName,
         projectPath,
-        message: message.body,
+        message: prompt,
         senderName,
         senderId,
-        messageId: message.id._serialized,
+        messageId: messageIds[0],
+        messageIds,
+        role,
+        logger,
+        onToolUse: (toolName, input) => progress.report(toolName, input),
+        abortController: controller,
+        ...(attachments.length > 0 && {
+          images: attachments.flatMap((a) => (a.image ? [a.image] : [])),
+          attachments: attachments.map((a) => a.info),
+        }),
+        ...(config.approval.enabled && {
+          canUseTool: createCanUseTool(groupId, (text) => sendResponse(formatServerMessage(text)), controller.signal),
+        }),
       });
 
-      await chat.clearState();
-      await sendResponse(formatBotResponse(response));
+      progress.stop();
+      await chat.clearTyping();
+
+      // !stop already told the group what was interrupted
+      if (controller.signal.aborted) {
+        logger.info('Task cancelled');
+        return;
+      }
+
+      for (const chunk of formatBotResponseChunks(response)) {
+        await sendResponse(chunk);
+      }
 
-      log('info', `[${groupName}] Claude: "${truncate(response)}"`);
+      logger.info(`Sent reply: "${truncate(response)}"`);
 
     } catch (error) {
-      await chat.clearState();
+      progress.stop();
+      await chat.clearTyping();
       const errorMsg = getErrorMessage(error);
-      log('error', `[${groupName}] Error:`, errorMsg);
+      logger.error('Error:', errorMsg);
+      errors.inc({ source: 'router' });
       await sendResponse(formatServerMessage(`❌ Error: ${errorMsg}`));
+    } finally {
+      finishTask(groupId, controller);
     }
+  }).catch((error) => {
+    // Checking the budget or showing the typing indicator failed before the task started
+    const errorMsg = getErrorMessage(error);
+    logger.error('Task failed:', errorMsg);
+    errors.inc({ source: 'router' });
+    sendResponse(formatServerMessage(`❌ Error: ${errorMsg}`)).catch(() => {});
   });
 }
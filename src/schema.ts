@@ -0,0 +1,110 @@
+/**
+ * Minimal schema validation for WhatsClaude config files
+ *
+ * Validators collect human-readable errors ("approval.timeoutMs: expected
+ * a number >= 0") instead of throwing, so every problem in a file can be
+ * reported at once.
+ */
+
+/**
+ * Validate a value at a path, pushing any problems onto errors
+ *
+ * @returns true if the value is valid
+ */
+export type Validator = (value: unknown, path: string, errors: string[]) => boolean;
+
+function fail(errors: string[], path: string, message: string): false {
+  errors.push(`${path || '(root)'}: ${message}`);
+  return false;
+}
+
+export function string(): Validator {
+  return (value, path, errors) =>
+    typeof value === 'string' || fail(errors, path, 'expected a string');
+}
+
+export function boolean(): Validator {
+  return (value, path, errors) =>
+    typeof value === 'boolean' || fail(errors, path, 'expected true or false');
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Validator {
+  const { min, max, integer } = options;
+  const bounds = [min !== undefined && `>= ${min}`, max !== undefined && `<= ${max}`].filter(Boolean).join(' and ');
+  const expected = `expected ${integer ? 'an integer' : 'a number'}${bounds ? ` ${bounds}` : ''}`;
+  return (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(errors, path, expected);
+    if (integer && !Number.isInteger(value)) return fail(errors, path, expected);
+    if (min !== undefined && value < min) return fail(errors, path, expected);
+    if (max !== undefined && value > max) return fail(errors, path, expected);
+    return true;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Validator {
+  return (value, path, errors) =>
+    values.includes(value as T) || fail(errors, path, `expected one of ${values.map((v) => `"${v}"`).join(', ')}`);
+}
+
+export function regex(): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'string') return fail(errors, path, 'expected a regular expression string');
+    try {
+      new RegExp(value);
+      return true;
+    } catch (error) {
+      return fail(errors, path, `invalid regular expression (${(error as Error).message})`);
+    }
+  };
+}
+
+export function arrayOf(item: Validator): Validator {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) return fail(errors, path, 'expected an array');
+    return value.map((v, i) => item(v, `${path}[${i}]`, errors)).every(Boolean);
+  };
+}
+
+/**
+ * Object with arbitrary keys whose values all match one validator
+ */
+export function recordOf(item: Validator): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(errors, path, 'expected an object');
+    }
+    return Object.entries(value)
+      .map(([key, v]) => item(v, path ? `${path}.${key}` : key, errors))
+      .every(Boolean);
+  };
+}
+
+/**
+ * Object with known keys; unknown keys are errors (catches typos)
+ */
+export function object(
+  shape: Record<string, Validator>,
+  options: { required?: string[] } = {}
+): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(errors, path, 'expected an object');
+    }
+
+    let valid = true;
+    const record = value as Record<string, unknown>;
+    for (const key of options.required ?? []) {
+      if (!(key in record)) valid = fail(errors, path ? `${path}.${key}` : key, 'is required');
+    }
+    for (const [key, fieldValue] of Object.entries(record)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const validator = shape[key];
+      if (!validator) {
+        valid = fail(errors, fieldPath, 'unknown setting');
+      } else if (!validator(fieldValue, fieldPath, errors)) {
+        valid = false;
+      }
+    }
+    return valid;
+  };
+}
@@ -0,0 +1,524 @@
+/**
+ * History search for WhatsClaude
+ *
+ * Searches every project's .whatsclaude/history.jsonl under projectsRoot,
+ * filtering by group, sender, role, date range and words or a regex.
+ *
+ * Each project keeps an incremental index (.whatsclaude/search-index.json)
+ * with message metadata, byte offsets and a word → message map. Only the
+ * part of the history appended since the last search is read to update it;
+ * message content is read back from the history file for matches only.
+ * Rotated segments never change, so each gets a one-off index under
+ * .whatsclaude/search-index/ and is skipped when outside the date range.
+ */
+
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createContext, Script } from 'vm';
+import { config } from './config.js';
+import { log } from './logger.js';
+import { getHistoryPath, getHistorySegments, readSegment, type HistorySegment } from './history.js';
+import { normalizeSenderId } from './access.js';
+import { ensureDir, getErrorMessage } from './utils.js';
+import type { StoredMessage } from './types.js';
+
+/**
+ * Bump when the index format changes (old indexes are rebuilt)
+ */
+const INDEX_VERSION = 2;
+
+/**
+ * Bytes at the start of the live history file remembered to detect rotation
+ */
+const HEAD_BYTES = 128;
+
+/**
+ * Results returned when the query doesn't set a limit
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Longest /regex/ accepted in a query
+ */
+export const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Regex flags a query may use (g and y would make test() skip matches)
+ */
+const REGEX_FLAGS = ['i', 'm', 's', 'u'];
+
+/**
+ * Time one search may spend matching its regex, in milliseconds
+ */
+const REGEX_BUDGET_MS = 2000;
+
+/**
+ * Message metadata kept in the index
+ */
+interface IndexEntry {
+  /** Byte offset of the line in history.jsonl */
+  offset: number;
+  /** Line length in bytes (without the newline) */
+  length: number;
+  ts: string;
+  groupId: string;
+  groupName: string;
+  role: StoredMessage['role'];
+  sender: string;
+  senderName: string;
+}
+
+interface SearchIndex {
+  version: number;
+  /** Bytes of the history file covered by the index */
+  size: number;
+  /** Start of the indexed file, to notice when it was replaced */
+  head: string;
+  entries: IndexEntry[];
+  /** Lowercased word → positions in entries */
+  words: Map<string, number[]>;
+}
+
+/**
+ * Index as stored on disk (a Map doesn't survive JSON)
+ */
+type StoredIndex = Omit<SearchIndex, 'words'> & { words: [string, number[]][] };
+
+/**
+ * Search filters (all optional, combined with AND)
+ */
+export interface SearchQuery {
+  /** Words that must all appear in the message (any order, case-insensitive) */
+  text?: string;
+  /** Pattern the message content must match */
+  regex?: RegExp;
+  /** Group name (substring, case-insensitive) or exact group ID */
+  group?: string;
+  /** Sender name (substring, case-insensitive) or phone number */
+  sender?: string;
+  role?: StoredMessage['role'];
+  /** Only messages at or after this time */
+  since?: Date;
+  /** Only messages before this time */
+  until?: Date;
+  /** Maximum results, newest first (default 20) */
+  limit?: number;
+}
+
+export interface SearchResult {
+  projectPath: string;
+  message: StoredMessage;
+}
+
+/**
+ * Split text into lowercased words for indexing and matching
+ */
+export function tokenize(text: string): string[] {
+  return [...new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 1))];
+}
+
+/**
+ * Get the search index file path for a project's live history or one of its segments
+ */
+function getIndexPath(projectPath: string, segment?: HistorySegment): string {
+  return segment
+    ? join(projectPath, '.whatsclaude', 'search-index', `${segment.file}.json`)
+    : join(projectPath, '.whatsclaude', 'search-index.json');
+}
+
+function emptyIndex(): SearchIndex {
+  return { version: INDEX_VERSION, size: 0, head: '', entries: [], words: new Map() };
+}
+
+/**
+ * Load an index file, starting over if it's missing, outdated or unreadable
+ */
+function loadIndex(indexPath: string): SearchIndex {
+  if (!existsSync(indexPath)) {
+    return emptyIndex();
+  }
+  try {
+    const stored = JSON.parse(readFileSync(indexPath, 'utf-8')) as StoredIndex;
+    return stored.version === INDEX_VERSION ? { ...stored, words: new Map(stored.words) } : emptyIndex();
+  } catch (error) {
+    log('warn', `Rebuilding unreadable search index ${indexPath}:`, getErrorMessage(error));
+    return emptyIndex();
+  }
+}
+
+/**
+ * Add the complete lines of a JSONL buffer to an index
+ *
+ * @returns Bytes consumed (a partial last line is left for next time)
+ */
+function indexLines(index: SearchIndex, buffer: Buffer, baseOffset: number, source: string): number {
+  let start = 0;
+  let newline: number;
+  while ((newline = buffer.indexOf(0x0a, start)) !== -1) {
+    const lineStart = start;
+    const line = buffer.subarray(lineStart, newline).toString('utf-8');
+    const offset = baseOffset + lineStart;
+    start = newline + 1;
+    if (!line.trim()) continue;
+
+    let message: StoredMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      log('warn', `Skipping unparseable history line at byte ${offset} of ${source}`);
+      continue;
+    }
+
+    const position = index.entries.length;
+    index.entries.push({
+      offset,
+      length: newline - lineStart,
+      ts: message.ts,
+      groupId: message.groupId,
+      groupName: message.groupName,
+      role: message.role,
+      sender: message.sender,
+      senderName: message.senderName,
+    });
+    for (const word of tokenize(message.content ?? '')) {
+      const positions = index.words.get(word);
+      if (positions) {
+        positions.push(position);
+      } else {
+        index.words.set(word, [position]);
+      }
+    }
+  }
+  return start;
+}
+
+/**
+ * Save an index, logging (not throwing) on failure - it can always be rebuilt
+ */
+function saveIndex(indexPath: string, index: SearchIndex): void {
+  try {
+    ensureDir(dirname(indexPath));
+    const stored: StoredIndex = { ...index, words: [...index.words] };
+    writeFileSync(indexPath, JSON.stringify(stored));
+  } catch (error) {
+    log('warn', `Failed to save search index ${indexPath}:`, getErrorMessage(error));
+  }
+}
+
+/**
+ * Read a byte range of a file
+ */
+function readRange(path: string, offset: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const fd = openSync(path, 'r');
+  try {
+    const bytesRead = readSync(fd, buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Bring a project's live history index up to date
+ *
+ * Reads only the bytes appended since the last update. If the file was
+ * rotated or replaced (it shrank or starts differently), it is re-indexed.
+ */
+export function updateIndex(projectPath: string): SearchIndex {
+  const historyPath = getHistoryPath(projectPath);
+  const indexPath = getIndexPath(projectPath);
+  let index = loadIndex(indexPath);
+  if (!existsSync(historyPath)) {
+    return emptyIndex();
+  }
+
+  const { size } = statSync(historyPath);
+  const head = readRange(historyPath, 0, Math.min(HEAD_BYTES, size)).toString('latin1');
+  if (size < index.size || (index.size > 0 && !head.startsWith(index.head))) {
+    index = emptyIndex();
+  }
+  if (size === index.size) {
+    return index;
+  }
+
+  index.size += indexLines(index, readRange(historyPath, index.size, size - index.size), index.size, historyPath);
+  index.head = head;
+  saveIndex(indexPath, index);
+  return index;
+}
+
+/**
+ * Get the index of a rotated segment, building it on first use
+ */
+function getSegmentIndex(projectPath: string, segment: HistorySegment, content: () => Buffer): SearchIndex {
+  const indexPath = getIndexPath(projectPath, segment);
+  const index = loadIndex(indexPath);
+  if (index.size > 0) {
+    return index;
+  }
+
+  const buffer = content();
+  index.size = indexLines(index, buffer, 0, segment.file);
+  saveIndex(indexPath, index);
+  return index;
+}
+
+/**
+ * Find project directories that have a history file
+ */
+export function findProjectsWithHistory(projectsRoot: string = config.projectsRoot): string[] {
+  if (!existsSync(projectsRoot)) {
+    return [];
+  }
+  return readdirSync(projectsRoot, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map((entry) => join(projectsRoot, entry.name))
+    .filter((projectPath) => existsSync(getHistoryPath(projectPath)) || getHistorySegments(projectPath).length > 0);
+}
+
+/**
+ * Check an entry against the metadata filters
+ */
+function matchesMetadata(entry: IndexEntry, query: SearchQuery): boolean {
+  if (query.role && entry.role !== query.role) return false;
+  if (query.since && entry.ts < query.since.toISOString()) return false;
+  if (query.until && entry.ts >= query.until.toISOString()) return false;
+
+  if (query.group) {
+    const group = query.group.toLowerCase();
+    if (entry.groupId !== query.group && !entry.groupName.toLowerCase().includes(group)) return false;
+  }
+
+  if (query.sender) {
+    const sender = query.sender.toLowerCase();
+    const byName = entry.senderName.toLowerCase().includes(sender);
+    const byNumber = /\d/.test(query.sender) && normalizeSenderId(entry.sender) === normalizeSenderId(query.sender);
+    if (!byName && !byNumber) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the entry positions containing every query word (undefined = no word filter)
+ */
+function findWordCandidates(index: SearchIndex, text: string | undefined): Set<number> | undefined {
+  const words = text ? tokenize(text) : [];
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const lists = words.map((word) => index.words.get(word) ?? []).sort((a, b) => a.length - b.length);
+  let candidates = new Set(lists[0]);
+  for (const list of lists.slice(1)) {
+    const next = new Set(list);
+    candidates = new Set([...candidates].filter((position) => next.has(position)));
+  }
+  return candidates;
+}
+
+/**
+ * Check whether a segment's date range can overlap the query's
+ */
+function segmentInRange(segment: HistorySegment, query: SearchQuery): boolean {
+  if (query.since && segment.lastTs < query.since.toISOString()) return false;
+  if (query.until && segment.firstTs >= query.until.toISOString()) return false;
+  return true;
+}
+
+/**
+ * Create a regex test that fails the search once it has used up its time budget
+ *
+ * Patterns come from any group member and run on the bridge's main thread,
+ * so each test runs in a vm context with a timeout: catastrophic
+ * backtracking is interrupted instead of freezing every group.
+ */
+export function createRegexTest(regex: RegExp, budgetMs = REGEX_BUDGET_MS): (text: string) => boolean {
+  const context = createContext({ regex, text: '' });
+  const script = new Script('regex.test(text)');
+  const deadline = Date.now() + budgetMs;
+
+  return (text) => {
+    const remaining = deadline - Date.now();
+    context.text = text;
+    try {
+      if (remaining <= 0) throw new Error('out of time');
+      return script.runInContext(context, { timeout: Math.ceil(remaining) }) === true;
+    } catch {
+      throw new Error(`The regex ${regex} took too long - try a simpler pattern or narrow the search`);
+    }
+  };
+}
+
+/**
+ * Collect matches from one indexed source, newest first
+ */
+function searchSource(
+  index: SearchIndex,
+  query: SearchQuery,
+  limit: number,
+  readLine: (entry: IndexEntry) => Buffer,
+  regexTest?: (text: string) => boolean
+): StoredMessage[] {
+  const candidates = findWordCandidates(index, query.text);
+  const matches: StoredMessage[] = [];
+  if (candidates?.size === 0) {
+    return matches;
+  }
+
+  for (let position = index.entries.length - 1; position >= 0 && matches.length < limit; position--) {
+    const entry = index.entries[position];
+    if (candidates && !candidates.has(position)) continue;
+    if (!matchesMetadata(entry, query)) continue;
+
+    const message = JSON.parse(readLine(entry).toString('utf-8')) as StoredMessage;
+    if (regexTest && !regexTest(message.content)) continue;
+    matches.push(message);
+  }
+  return matches;
+}
+
+/**
+ * Search one project's history (live file, then segments), newest first
+ *
+ * @param regexTest - Test for query.regex, to share its time budget across projects
+ * @throws If the query's regex runs out of time
+ */
+export function searchProject(
+  projectPath: string,
+  query: SearchQuery,
+  limit = query.limit ?? DEFAULT_LIMIT,
+  regexTest = query.regex && createRegexTest(query.regex)
+): SearchResult[] {
+  const historyPath = getHistoryPath(projectPath);
+  const readLive = (entry: IndexEntry) => readRange(historyPath, entry.offset, entry.length);
+  const messages = searchSource(updateIndex(projectPath), query, limit, readLive, regexTest);
+
+  for (const segment of getHistorySegments(projectPath).reverse()) {
+    if (messages.length >= limit) break;
+    if (!segmentInRange(segment, query)) continue;
+
+    // Decompress at most once per search, and only if the segment has to be indexed or read
+    let content: Buffer | undefined;
+    const load = () => (content ??= readSegment(projectPath, segment.file));
+    const index = getSegmentIndex(projectPath, segment, load);
+    const readSegmentLine = (entry: IndexEntry) => load().subarray(entry.offset, entry.offset + entry.length);
+    messages.push(...searchSource(index, query, limit - messages.length, readSegmentLine, regexTest));
+  }
+
+  return messages.map((message) => ({ projectPath, message }));
+}
+
+/**
+ * Search the history of several projects (default: all of them), newest first
+ */
+export function searchHistory(
+  query: SearchQuery,
+  projectPaths: string[] = findProjectsWithHistory()
+): SearchResult[] {
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  // One time budget for the whole search
+  const regexTest = query.regex && createRegexTest(query.regex);
+  return projectPaths
+    .flatMap((projectPath) => searchProject(projectPath, query, limit, regexTest))
+    .sort((a, b) => b.message.ts.localeCompare(a.message.ts))
+    .slice(0, limit);
+}
+
+const ROLES: StoredMessage['role'][] = ['user', 'assistant', 'system'];
+
+/**
+ * Parse a date filter; a bare date as "until" includes that whole day
+ *
+ * @throws If the value isn't a date
+ */
+export function parseDateFilter(value: string, endOfDay: boolean): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}" (use YYYY-MM-DD)`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+/**
+ * Parse search terms shared by !search and the CLI
+ *
+ * Filters are written as key:value (group:, sender:, role:, since:, until:,
+ * limit:), a /pattern/flags term is a regex, and everything else is text
+ * (words of one character are ignored).
+ *
+ * @example
+ * parseSearchQuery('sender:alice since:2026-01-01 /TODO|FIXME/ login bug')
+ *
+ * @throws If a filter value is invalid
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = {};
+  const text: string[] = [];
+
+  for (const term of input.trim().split(/\s+/).filter(Boolean)) {
+    const regexMatch = term.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+      const [, pattern, flags] = regexMatch;
+      if (pattern.length > MAX_REGEX_LENGTH) {
+        throw new Error(`Regex too long (at most ${MAX_REGEX_LENGTH} characters)`);
+      }
+      try {
+        // Always case-insensitive; flags that make test() stateful are dropped
+        query.regex = new RegExp(pattern, [...new Set(['i', ...flags])].filter((flag) => REGEX_FLAGS.includes(flag)).join(''));
+      } catch (error) {
+        throw new Error(`Invalid regex ${term}: ${getErrorMessage(error)}`);
+      }
+      continue;
+    }
+
+    const filterMatch = term.match(/^(group|sender|role|since|until|limit):(.+)$/i);
+    if (!filterMatch) {
+      text.push(term);
+      continue;
+    }
+
+    const [, key, value] = filterMatch;
+    switch (key.toLowerCase()) {
+      case 'group':
+        query.group = value;
+        break;
+      case 'sender':
+        query.sender = value;
+        break;
+      case 'role':
+        if (!ROLES.includes(value as StoredMessage['role'])) {
+          throw new Error(`Invalid role "${value}" (use ${ROLES.join(', ')})`);
+        }
+        query.role = value as StoredMessage['role'];
+        break;
+      case 'since':
+        query.since = parseDateFilter(value, false);
+        break;
+      case 'until':
+        query.until = parseDateFilter(value, true);
+        break;
+      case 'limit': {
+        const limit = parseInt(value, 10);
+        if (isNaN(limit) || limit < 1) {
+          throw new Error(`Invalid limit "${value}"`);
+        }
+        query.limit = limit;
+        break;
+      }
+    }
+  }
+
+  if (text.length > 0) {
+    query.text = text.join(' ');
+    // Words shorter than two characters aren't indexed - without this, "x" would match everything
+    if (tokenize(query.text).length === 0) {
+      throw new Error(`Nothing to search for in "${query.text}" - use words of at least two letters or digits, or a /regex/`);
+    }
+  }
+  return query;
+}
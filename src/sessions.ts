@@ -2,62 +2,90 @@
  * Session persistence for WhatsClaude
  *
  * Stores Claude Agent SDK session IDs so conversations
- * can be resumed after process restarts.
+ * can be resumed after process restarts. The file format
+ * and crash safety live in state-store.ts.
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { config, log } from './config.js';
-import type { SessionInfo } from './types.js';
+import { config } from './config.js';
+import { createLogger, log, type Logger } from './logger.js';
+import { loadStateFile, saveStateFile, STATE_VERSION, type CorruptionReport, type StateLoadResult } from './state-store.js';
+import { getErrorMessage } from './utils.js';
+import type { ArchivedSession, SessionInfo } from './types.js';
 
 const SESSIONS_FILE = join(config.projectsRoot, '.whatsclaude-sessions.json');
 
 // In-memory session store
 let sessions: Record<string, SessionInfo> = {};
 
+/**
+ * Name of a group's session until it forks or switches
+ */
+export const DEFAULT_SESSION_NAME = 'main';
+
+// Active session name per group (groups not listed use DEFAULT_SESSION_NAME)
+let activeNames: Record<string, string> = {};
+
+// Inactive named sessions per group (groupId → name → session)
+let branches: Record<string, Record<string, SessionInfo>> = {};
+
+// Archived sessions per group, oldest first
+let archived: Record<string, ArchivedSession[]> = {};
+
+/**
+ * Archived sessions kept per group (oldest are dropped)
+ */
+const MAX_ARCHIVED_PER_GROUP = 10;
+
 // Group ownership registry: projectName → groupId (first group to claim the name wins)
 let groupRegistry: Record<string, string> = {};
 
 /**
  * Load sessions and group registry from disk
+ *
+ * An unreadable state file is moved aside and the backup used instead.
+ *
+ * @returns A corruption report if the state file couldn't be loaded
  */
-export function loadState(): void {
+export function loadState(): CorruptionReport | undefined {
+  let result: StateLoadResult;
   try {
-    if (existsSync(SESSIONS_FILE)) {
-      const data = readFileSync(SESSIONS_FILE, 'utf-8');
-      const parsed = JSON.parse(data);
-
-      // Handle both old format (just sessions) and new format (sessions + groupRegistry)
-      if (parsed.sessions) {
-        sessions = parsed.sessions;
-        groupRegistry = parsed.groupRegistry || {};
-      } else {
-        // Old format: the whole file is just sessions
-        sessions = parsed;
-        groupRegistry = {};
-      }
-
-      const sessionCount = Object.keys(sessions).length;
-      const groupCount = Object.keys(groupRegistry).length;
-      log('info', `Loaded ${sessionCount} session(s) and ${groupCount} registered group(s) from disk`);
-    }
+    result = loadStateFile(SESSIONS_FILE);
   } catch (error) {
-    log('warn', 'Failed to load state, starting fresh:', error);
-    sessions = {};
-    groupRegistry = {};
+    // Couldn't even move the bad file aside - refuse to run over it
+    throw new Error(`Failed to load state from ${SESSIONS_FILE}: ${getErrorMessage(error)}`);
   }
+
+  ({ sessions, groupRegistry, archived, activeNames, branches } = result.state);
+
+  const sessionCount = Object.keys(sessions).length;
+  const groupCount = Object.keys(groupRegistry).length;
+  log('info', `Loaded ${sessionCount} session(s) and ${groupCount} registered group(s) from disk`);
+
+  const { corruption } = result;
+  if (corruption) {
+    log('error', `State file ${corruption.file} was unreadable (${corruption.error}). ` +
+      `It was moved to ${corruption.preservedAs}; ` +
+      (corruption.recoveredFrom === 'backup' ? 'recovered from the backup.' : 'no usable backup, starting empty.'));
+    // Write the recovered state back so the next start doesn't depend on the backup
+    saveState();
+  }
+  return corruption;
 }
 
 /**
- * Save sessions and group registry to disk
+ * Save sessions and group registry to disk (atomically, keeping a backup)
  */
 export function saveState(): void {
   try {
-    const state = {
+    saveStateFile(SESSIONS_FILE, {
+      version: STATE_VERSION,
       sessions,
       groupRegistry,
-    };
-    writeFileSync(SESSIONS_FILE, JSON.stringify(state, null, 2));
+      archived,
+      activeNames,
+      branches,
+    });
   } catch (error) {
     log('error', 'Failed to save state:', error);
   }
@@ -103,6 +131,156 @@ export function getAllSessions(): Record<string, SessionInfo> {
   return { ...sessions };
 }
 
+/**
+ * Move a group's session into the archive so it can be restored later
+ *
+ * @returns The archived session, or undefined if the group had none
+ */
+export function archiveSession(groupId: string, reason: string, logger?: Logger): ArchivedSession | undefined {
+  const session = sessions[groupId];
+  if (!session) {
+    return undefined;
+  }
+
+  const entry: ArchivedSession = { ...session, archivedAt: new Date().toISOString(), reason };
+  archived[groupId] = [...(archived[groupId] ?? []), entry].slice(-MAX_ARCHIVED_PER_GROUP);
+  delete sessions[groupId];
+  saveState();
+  (logger ?? createLogger({ groupId, groupName: session.groupName }))
+    .child({ sessionId: session.sessionId })
+    .info(`Archived session ${session.sessionId} (${reason})`);
+  return entry;
+}
+
+/**
+ * Get a group's archived sessions, most recent first
+ */
+export function getArchivedSessions(groupId: string): ArchivedSession[] {
+  return [...(archived[groupId] ?? [])].reverse();
+}
+
+/**
+ * Make an archived session the group's active session again
+ *
+ * The current session, if any, is archived in its place.
+ *
+ * @param index - Position in getArchivedSessions() (0 = most recent)
+ * @returns The restored session, or undefined if there is no such archive entry
+ */
+export function restoreSession(groupId: string, index = 0): SessionInfo | undefined {
+  const list = archived[groupId] ?? [];
+  const position = list.length - 1 - index;
+  if (index < 0 || position < 0) {
+    return undefined;
+  }
+
+  const [entry] = list.splice(position, 1);
+  if (list.length === 0) {
+    delete archived[groupId];
+  }
+  archiveSession(groupId, 'replaced by a restored session');
+
+  const { archivedAt: _archivedAt, reason: _reason, ...session } = entry;
+  sessions[groupId] = { ...session, lastActivity: new Date().toISOString() };
+  saveState();
+  return sessions[groupId];
+}
+
+/**
+ * Find groups whose session has been idle for at least idleMs
+ */
+export function findIdleSessions(idleMs: number, now: number = Date.now()): string[] {
+  return Object.entries(sessions)
+    .filter(([, session]) => now - Date.parse(session.lastActivity) >= idleMs)
+    .map(([groupId]) => groupId);
+}
+
+/**
+ * A named session in a group, as shown by !session list
+ */
+export interface NamedSession {
+  name: string;
+  active: boolean;
+  /** Undefined until the first message in the session */
+  session?: SessionInfo;
+}
+
+/**
+ * Get the name of a group's active session
+ */
+export function getActiveSessionName(groupId: string): string {
+  return activeNames[groupId] ?? DEFAULT_SESSION_NAME;
+}
+
+/**
+ * List a group's named sessions, active first
+ */
+export function listNamedSessions(groupId: string): NamedSession[] {
+  const active: NamedSession = { name: getActiveSessionName(groupId), active: true, session: sessions[groupId] };
+  const inactive = Object.entries(branches[groupId] ?? {})
+    .map(([name, session]) => ({ name, active: false, session }))
+    .sort((a, b) => b.session.lastActivity.localeCompare(a.session.lastActivity));
+  return [active, ...inactive];
+}
+
+/**
+ * Park the active session under its name and make another name active
+ */
+function activate(groupId: string, name: string, session: SessionInfo | undefined): void {
+  const current = sessions[groupId];
+  const groupBranches = branches[groupId] ?? {};
+  if (current) {
+    groupBranches[getActiveSessionName(groupId)] = current;
+  }
+  delete groupBranches[name];
+
+  if (Object.keys(groupBranches).length > 0) {
+    branches[groupId] = groupBranches;
+  } else {
+    delete branches[groupId];
+  }
+
+  if (session) {
+    sessions[groupId] = session;
+  } else {
+    delete sessions[groupId];
+  }
+  if (name === DEFAULT_SESSION_NAME) {
+    delete activeNames[groupId];
+  } else {
+    activeNames[groupId] = name;
+  }
+  saveState();
+}
+
+/**
+ * Start a new named session that branches off the active one
+ *
+ * The active session is kept under its own name. The new session resumes
+ * from the same SDK session ID (forked on the next query), or starts fresh
+ * if the group has no session yet. The caller checks the name is unused.
+ */
+export function forkSession(groupId: string, name: string): SessionInfo | undefined {
+  const current = sessions[groupId];
+  const forked = current && { ...current, lastActivity: new Date().toISOString(), fork: true };
+  activate(groupId, name, forked);
+  return forked;
+}
+
+/**
+ * Make an existing named session active, parking the current one
+ *
+ * @returns false if the group has no inactive session with that name
+ */
+export function switchSession(groupId: string, name: string): boolean {
+  const target = branches[groupId]?.[name];
+  if (!target) {
+    return false;
+  }
+  activate(groupId, name, target);
+  return true;
+}
+
 /**
  * Get the group ID that owns a project name
  */
@@ -117,3 +295,10 @@ export function registerGroup(projectName: string, groupId: string): void {
   groupRegistry[projectName] = groupId;
   saveState();
 }
+
+/**
+ * Get every registered project name and the group that owns it
+ */
+export function getRegisteredGroups(): Record<string, string> {
+  return { ...groupRegistry };
+}
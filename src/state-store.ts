@@ -0,0 +1,207 @@
+/**
+ * Crash-safe persistence for the WhatsClaude state file
+ *
+ * - Writes go to a temp file that is fsynced and renamed over the state
+ *   file, so a crash leaves either the old or the new state, never half.
+ * - The previous state is kept as <file>.bak before each write.
+ * - Every file carries a schema version; older files are migrated step
+ *   by step on load.
+ * - A file that can't be read is moved aside and reported (and the backup
+ *   used if possible) instead of being silently replaced.
+ */
+
+import { closeSync, copyFileSync, existsSync, fsyncSync, openSync, readFileSync, renameSync, writeFileSync, writeSync } from 'fs';
+import { arrayOf, boolean, number, object, recordOf, string, type Validator } from './schema.js';
+import { getErrorMessage } from './utils.js';
+import type { ArchivedSession, SessionInfo } from './types.js';
+
+/**
+ * Current state file schema version
+ *
+ * History:
+ * - 0: the whole file is the sessions map (no version field)
+ * - 1: { sessions, groupRegistry, archived?, activeNames?, branches? } (no version field)
+ * - 2: version field added, every map always present
+ */
+export const STATE_VERSION = 2;
+
+/**
+ * Everything persisted in the state file
+ */
+export interface PersistedState {
+  version: number;
+  sessions: Record<string, SessionInfo>;
+  /** projectName → groupId */
+  groupRegistry: Record<string, string>;
+  archived: Record<string, ArchivedSession[]>;
+  activeNames: Record<string, string>;
+  branches: Record<string, Record<string, SessionInfo>>;
+}
+
+/**
+ * What happened when an unreadable state file was found
+ */
+export interface CorruptionReport {
+  /** ISO timestamp */
+  ts: string;
+  /** The state file that couldn't be loaded */
+  file: string;
+  error: string;
+  /** Where the unreadable file was moved to */
+  preservedAs: string;
+  /** Where the loaded state came from instead */
+  recoveredFrom: 'backup' | 'none';
+}
+
+export interface StateLoadResult {
+  state: PersistedState;
+  /** Set when the state file was unreadable */
+  corruption?: CorruptionReport;
+}
+
+/**
+ * Create an empty state at the current version
+ */
+export function emptyState(): PersistedState {
+  return { version: STATE_VERSION, sessions: {}, groupRegistry: {}, archived: {}, activeNames: {}, branches: {} };
+}
+
+type RawState = Record<string, unknown>;
+
+/**
+ * Migrations from version N to N + 1, indexed by N
+ */
+const MIGRATIONS: ((state: RawState) => RawState)[] = [
+  // 0 → 1: wrap the bare sessions map
+  (state) => ({ sessions: state, groupRegistry: {} }),
+  // 1 → 2: add the version and default the maps added since
+  (state) => ({ ...emptyState(), ...state, version: 2 }),
+];
+
+const sessionInfoShape = {
+  sessionId: string(),
+  projectPath: string(),
+  groupName: string(),
+  lastActivity: string(),
+  fork: boolean(),
+  turns: number({ min: 0, integer: true }),
+  contextChars: number({ min: 0, integer: true }),
+  lineage: arrayOf(string()),
+  rolledOverAt: string(),
+};
+const sessionInfo = object(sessionInfoShape, { required: ['sessionId', 'projectPath', 'groupName', 'lastActivity'] });
+const archivedSession = object(
+  { ...sessionInfoShape, archivedAt: string(), reason: string() },
+  { required: ['sessionId', 'projectPath', 'groupName', 'lastActivity', 'archivedAt', 'reason'] }
+);
+
+const validateState: Validator = object(
+  {
+    version: number({ min: STATE_VERSION, integer: true }),
+    sessions: recordOf(sessionInfo),
+    groupRegistry: recordOf(string()),
+    archived: recordOf(arrayOf(archivedSession)),
+    activeNames: recordOf(string()),
+    branches: recordOf(recordOf(sessionInfo)),
+  },
+  { required: ['version', 'sessions', 'groupRegistry', 'archived', 'activeNames', 'branches'] }
+);
+
+/**
+ * Work out which schema version a parsed state file has
+ */
+function detectVersion(raw: RawState): number {
+  if (typeof raw.version === 'number') return raw.version;
+  if (typeof raw.sessions === 'object' && raw.sessions !== null) return 1;
+  return 0;
+}
+
+/**
+ * Migrate a parsed state file to the current version and validate it
+ *
+ * @throws If the file is from a newer version or doesn't match the schema
+ */
+export function migrateState(raw: unknown): PersistedState {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('state is not a JSON object');
+  }
+
+  let state = raw as RawState;
+  const version = detectVersion(state);
+  if (version > STATE_VERSION) {
+    throw new Error(`state version ${version} is newer than this WhatsClaude supports (${STATE_VERSION})`);
+  }
+  for (let from = version; from < STATE_VERSION; from++) {
+    state = MIGRATIONS[from](state);
+  }
+
+  const errors: string[] = [];
+  if (!validateState(state, '', errors)) {
+    throw new Error(`invalid state: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+  }
+  return state as unknown as PersistedState;
+}
+
+/**
+ * Read, parse and migrate a state file
+ */
+function readStateFile(path: string): PersistedState {
+  return migrateState(JSON.parse(readFileSync(path, 'utf-8')));
+}
+
+/**
+ * Load the state file, falling back to its backup if it's unreadable
+ *
+ * A missing file is a normal first start and yields an empty state.
+ */
+export function loadStateFile(path: string): StateLoadResult {
+  if (!existsSync(path)) {
+    return { state: emptyState() };
+  }
+
+  let error: string;
+  try {
+    return { state: readStateFile(path) };
+  } catch (e) {
+    error = getErrorMessage(e);
+  }
+
+  // Keep the unreadable file for inspection rather than overwriting it on the next save
+  const preservedAs = `${path}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  renameSync(path, preservedAs);
+
+  let state = emptyState();
+  let recoveredFrom: CorruptionReport['recoveredFrom'] = 'none';
+  const backupPath = `${path}.bak`;
+  if (existsSync(backupPath)) {
+    try {
+      state = readStateFile(backupPath);
+      recoveredFrom = 'backup';
+    } catch {
+      // Backup is unusable too - start empty, the report says so
+    }
+  }
+
+  const corruption: CorruptionReport = { ts: new Date().toISOString(), file: path, error, preservedAs, recoveredFrom };
+  writeFileSync(`${preservedAs}.report.json`, JSON.stringify(corruption, null, 2));
+  return { state, corruption };
+}
+
+/**
+ * Atomically replace the state file, keeping the previous one as a backup
+ */
+export function saveStateFile(path: string, state: PersistedState): void {
+  const tempPath = `${path}.tmp-${process.pid}`;
+  const fd = openSync(tempPath, 'w');
+  try {
+    writeSync(fd, JSON.stringify(state, null, 2));
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+
+  if (existsSync(path)) {
+    copyFileSync(path, `${path}.bak`);
+  }
+  renameSync(tempPath, path);
+}
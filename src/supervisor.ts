@@ -0,0 +1,169 @@
+/**
+ * Reconnection supervisor for transports
+ *
+ * When a transport drops, reconnect attempts are spaced out with exponential
+ * backoff (with jitter). After config.reconnect.maxAttempts failures in a
+ * row the circuit opens: nothing is tried for the cooldown, an alert goes
+ * out, then a single trial attempt decides whether to close it again.
+ * A logged-out account can't be fixed by retrying - the supervisor alerts
+ * that a new QR code scan is needed and makes one attempt so the code shows.
+ */
+
+import { sendAlert, type AlertKind } from './alerts.js';
+import { createLogger } from './logger.js';
+import { formatDuration, getErrorMessage } from './utils.js';
+import type { Config, ReconnectState } from './types.js';
+
+type ReconnectPolicy = Config['reconnect'];
+
+export interface SupervisorOptions extends ReconnectPolicy {
+  /** Transport name, for logs and alerts */
+  name: string;
+  /** Start connecting again (connected() is called once it worked) */
+  reconnect: () => Promise<void>;
+  /** Defaults to sendAlert */
+  alert?: (kind: AlertKind, message: string) => void;
+  /** Jitter source, 0 to 1 (defaults to Math.random) */
+  random?: () => number;
+}
+
+export interface ConnectionSupervisor {
+  /** The transport connected: reset the backoff and close the circuit */
+  connected(): void;
+  /** The transport dropped: schedule a reconnect */
+  disconnected(): void;
+  /** The account was logged out and needs a new QR code scan */
+  loggedOut(reason: string): void;
+  getState(): ReconnectState;
+  /** Cancel pending attempts (on shutdown) */
+  stop(): void;
+}
+
+/**
+ * Delay before a reconnect attempt, after `failures` failed attempts in a row
+ *
+ * Doubles from initialDelayMs up to maxDelayMs, then varies by ±20% so
+ * several bridges don't retry in lockstep.
+ */
+export function getBackoffDelay(
+  failures: number,
+  policy: Pick<ReconnectPolicy, 'initialDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** Math.min(failures, 30));
+  return Math.round(base * (0.8 + 0.4 * random()));
+}
+
+/**
+ * Create a reconnection supervisor
+ */
+export function createConnectionSupervisor(options: SupervisorOptions): ConnectionSupervisor {
+  const { name, reconnect, maxAttempts, cooldownMs, attemptTimeoutMs, random = Math.random } = options;
+  const alert = options.alert ?? ((kind: AlertKind, message: string) => void sendAlert(kind, name, message));
+  const logger = createLogger({ transport: name });
+
+  let failures = 0;
+  let circuit: ReconnectState['circuit'] = 'closed';
+  let loggedOut = false;
+  // Whether an alert went out that a 'recovered' alert should follow
+  let alerted = false;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let nextAttemptAt: number | undefined;
+  // Attempt in flight, so a late failure of an old attempt is ignored
+  let attempt: { timeout: NodeJS.Timeout } | undefined;
+
+  const clearTimers = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    nextAttemptAt = undefined;
+    if (attempt) clearTimeout(attempt.timeout);
+    attempt = undefined;
+  };
+
+  const schedule = (delayMs: number, run: () => void) => {
+    nextAttemptAt = Date.now() + delayMs;
+    timer = setTimeout(() => {
+      timer = undefined;
+      nextAttemptAt = undefined;
+      run();
+    }, delayMs);
+  };
+
+  const tryReconnect = () => {
+    if (stopped) return;
+    logger.info(`Reconnecting (attempt ${failures + 1}${circuit === 'half_open' ? ', after the cooldown' : ''})...`);
+
+    const current = {
+      timeout: setTimeout(() => failed(current, `not connected after ${formatDuration(attemptTimeoutMs)}`), attemptTimeoutMs),
+    };
+    attempt = current;
+    reconnect().catch((error) => failed(current, getErrorMessage(error)));
+  };
+
+  const failed = (which: { timeout: NodeJS.Timeout }, reason: string) => {
+    if (attempt !== which) return;
+    clearTimeout(which.timeout);
+    attempt = undefined;
+    failures++;
+    logger.warn(`Reconnect attempt ${failures} failed: ${reason}`);
+    next();
+  };
+
+  // Schedule the next attempt, or open the circuit after too many failures
+  const next = () => {
+    if (stopped || loggedOut || timer || attempt) return;
+
+    if (circuit === 'half_open' || failures >= maxAttempts) {
+      // Alert once per outage, not after every failed trial
+      if (circuit === 'closed') {
+        alert('reconnect_failing', `${failures} reconnect attempts failed. Trying again every ${formatDuration(cooldownMs)}.`);
+        alerted = true;
+      }
+      circuit = 'open';
+      schedule(cooldownMs, () => {
+        circuit = 'half_open';
+        tryReconnect();
+      });
+      return;
+    }
+
+    const delay = getBackoffDelay(failures, options, random);
+    logger.info(`Reconnecting in ${formatDuration(delay)}`);
+    schedule(delay, tryReconnect);
+  };
+
+  return {
+    connected: () => {
+      const wasRecovering = alerted;
+      clearTimers();
+      failures = 0;
+      circuit = 'closed';
+      loggedOut = false;
+      alerted = false;
+      if (wasRecovering) {
+        alert('recovered', `${name} is connected again.`);
+      }
+    },
+    disconnected: () => next(),
+    loggedOut: (reason) => {
+      if (loggedOut || stopped) return;
+      clearTimers();
+      loggedOut = true;
+      alerted = true;
+      alert('auth_required', `${reason}. Scan the QR code in the bridge's terminal (WhatsApp → Settings → Linked Devices).`);
+      // Retrying won't log back in, but restarting the client shows a fresh QR code
+      reconnect().catch((error) => logger.error('Could not restart for a new QR code:', getErrorMessage(error)));
+    },
+    getState: () => ({
+      attempts: failures,
+      circuit,
+      ...(nextAttemptAt && { nextAttemptAt: new Date(nextAttemptAt).toISOString() }),
+      loggedOut,
+    }),
+    stop: () => {
+      stopped = true;
+      clearTimers();
+    },
+  };
+}
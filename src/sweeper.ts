@@ -0,0 +1,69 @@
+/**
+ * Idle session expiry for WhatsClaude
+ *
+ * A background sweeper archives sessions nobody has used for a while,
+ * so the next message starts a fresh (cheaper, faster) conversation.
+ * Archived sessions keep their SDK session ID and can be restored
+ * with !restore.
+ */
+
+import { createLogger, log } from './logger.js';
+import { archiveSession, findIdleSessions } from './sessions.js';
+import { formatDuration, getErrorMessage } from './utils.js';
+import type { ArchivedSession } from './types.js';
+
+export interface SessionSweeperOptions {
+  /** Archive sessions idle for this long */
+  idleMs: number;
+  /** How often to check */
+  intervalMs: number;
+  /** Groups with a running or queued task are skipped */
+  isBusy: (groupId: string) => boolean;
+  /** Tell the group its session was archived */
+  notify: (groupId: string, session: ArchivedSession) => Promise<void>;
+}
+
+export interface SessionSweeper {
+  /** Archive idle sessions now, returning the archived entries */
+  sweep(): Promise<ArchivedSession[]>;
+  stop(): void;
+}
+
+/**
+ * Start sweeping idle sessions every intervalMs
+ */
+export function startSessionSweeper(options: SessionSweeperOptions): SessionSweeper {
+  const { idleMs, intervalMs, isBusy, notify } = options;
+
+  const sweep = async () => {
+    const results: ArchivedSession[] = [];
+    for (const groupId of findIdleSessions(idleMs)) {
+      if (isBusy(groupId)) {
+        continue;
+      }
+
+      const session = archiveSession(groupId, `idle for ${formatDuration(idleMs)}`);
+      if (!session) {
+        continue;
+      }
+      results.push(session);
+
+      try {
+        await notify(groupId, session);
+      } catch (error) {
+        createLogger({ groupId, groupName: session.groupName }).warn('Could not announce archived session:', getErrorMessage(error));
+      }
+    }
+    return results;
+  };
+
+  const timer = setInterval(() => {
+    sweep().catch((error) => log('error', 'Session sweep failed:', getErrorMessage(error)));
+  }, intervalMs);
+  timer.unref();
+
+  return {
+    sweep,
+    stop: () => clearInterval(timer),
+  };
+}
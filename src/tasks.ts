@@ -0,0 +1,62 @@
+/**
+ * In-flight task tracking for WhatsClaude
+ *
+ * Keeps an AbortController for the Claude query currently running
+ * in each group, so it can be cancelled from chat (!stop).
+ */
+
+/**
+ * A Claude query currently running for a group
+ */
+export interface ActiveTask {
+  controller: AbortController;
+  /** The prompt being processed */
+  prompt: string;
+  /** Who sent the prompt */
+  senderName: string;
+  /** Epoch milliseconds when the task started */
+  startedAt: number;
+}
+
+// One active task per group (groupId → task); queues run with concurrency 1
+const activeTasks: Map<string, ActiveTask> = new Map();
+
+/**
+ * Register the task starting for a group and get its abort controller
+ */
+export function startTask(groupId: string, prompt: string, senderName: string): AbortController {
+  const controller = new AbortController();
+  activeTasks.set(groupId, { controller, prompt, senderName, startedAt: Date.now() });
+  return controller;
+}
+
+/**
+ * Mark the group's task as finished
+ */
+export function finishTask(groupId: string, controller: AbortController): void {
+  // Only remove if it's still the same task (a newer one may have started)
+  if (activeTasks.get(groupId)?.controller === controller) {
+    activeTasks.delete(groupId);
+  }
+}
+
+/**
+ * Get the task currently running for a group
+ */
+export function getActiveTask(groupId: string): ActiveTask | undefined {
+  return activeTasks.get(groupId);
+}
+
+/**
+ * Abort the task currently running for a group
+ *
+ * @returns The cancelled task, or undefined if nothing was running
+ */
+export function cancelTask(groupId: string, reason: string): ActiveTask | undefined {
+  const task = activeTasks.get(groupId);
+  if (!task || task.controller.signal.aborted) {
+    return undefined;
+  }
+  task.controller.abort(reason);
+  return task;
+}
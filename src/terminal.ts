@@ -0,0 +1,165 @@
+/**
+ * Terminal transport for WhatsClaude
+ *
+ * Reads messages from stdin and prints responses to stdout, so the full
+ * routing/Claude pipeline can be run and debugged without a phone or Chromium.
+ *
+ * Lines starting with "/group <name>" switch the simulated group,
+ * "/attach <path> [caption]" sends a local file as an attachment.
+ * Everything else is delivered as a message from the local user.
+ */
+
+import { createInterface, type Interface } from 'readline';
+import { existsSync, readFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import { userInfo } from 'os';
+import { config } from './config.js';
+import { log } from './logger.js';
+import { createConnectionTracker } from './connection.js';
+import type { ChatHandle, InboundMessage, MediaAttachment, Transport, TransportHandlers } from './types.js';
+
+/**
+ * MIME types for files sent with /attach (anything else is sent as octet-stream)
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.ogg': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+};
+
+/**
+ * Map a MIME type to the message type WhatsApp would report
+ */
+function toMediaType(mimetype: string): string {
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+export interface TerminalTransportOptions {
+  /** Initial group name (the group prefix is added if missing) */
+  groupName?: string;
+  /** Display name used for the local sender */
+  senderName?: string;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Ensure a group name carries the configured group prefix
+ */
+function withGroupPrefix(name: string): string {
+  return name.startsWith(config.groupPrefix) ? name : `${config.groupPrefix} ${name}`;
+}
+
+/**
+ * Create a transport that reads from stdin and writes to stdout
+ */
+export function createTerminalTransport(
+  handlers?: TransportHandlers,
+  options: TerminalTransportOptions = {}
+): Transport {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const senderName = options.senderName ?? userInfo().username;
+  let groupName = withGroupPrefix(options.groupName ?? 'terminal');
+  let messageCounter = 0;
+  let rl: Interface | null = null;
+
+  const write = (text: string) => {
+    output.write(`${text}\n`);
+  };
+
+  const createChat = (name: string): ChatHandle => ({
+    id: `terminal:${name}`,
+    name,
+    isGroup: true,
+    sendMessage: async (text) => {
+      write(`\n[${name}] ${text}\n`);
+    },
+    sendTyping: async () => {
+      write(`[${name}] (typing...)`);
+    },
+    clearTyping: async () => {},
+  });
+
+  const handleLine = async (line: string) => {
+    const text = line.trim();
+    if (!text) {
+      return;
+    }
+
+    const switchMatch = text.match(/^\/group\s+(.+)$/);
+    if (switchMatch) {
+      groupName = withGroupPrefix(switchMatch[1].trim());
+      write(`Switched to group "${groupName}"`);
+      return;
+    }
+
+    let body = text;
+    let media: MediaAttachment | null = null;
+
+    const attachMatch = text.match(/^\/attach\s+(\S+)\s*([\s\S]*)$/);
+    if (attachMatch) {
+      const filePath = resolve(attachMatch[1]);
+      if (!existsSync(filePath)) {
+        write(`File not found: ${filePath}`);
+        return;
+      }
+      const mimetype = EXTENSION_MIME_TYPES[extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+      media = { mimetype, data: readFileSync(filePath).toString('base64'), filename: basename(filePath) };
+      body = attachMatch[2].trim();
+    }
+
+    const message: InboundMessage = {
+      id: `terminal-${Date.now()}-${++messageCounter}`,
+      body,
+      hasMedia: media !== null,
+      mediaType: media ? toMediaType(media.mimetype) : undefined,
+      fromMe: false,
+      getSender: async () => ({ id: `terminal:${senderName}`, name: senderName }),
+      downloadMedia: async () => media,
+    };
+
+    try {
+      await handlers?.onMessage?.(message, createChat(groupName));
+    } catch (error) {
+      log('error', 'Error handling terminal message:', error);
+    }
+  };
+
+  const connection = createConnectionTracker('terminal');
+
+  return {
+    name: 'terminal',
+    getState: connection.get,
+    start: async () => {
+      rl = createInterface({ input, terminal: false });
+      rl.on('line', (line) => {
+        void handleLine(line);
+      });
+
+      write(`Terminal transport ready. Chatting in "${groupName}".`);
+      write('Type a message, "/group <name>" to switch groups, or "/attach <path> [caption]" to send a file.\n');
+      connection.set('ready');
+      handlers?.onReady?.();
+    },
+    stop: async () => {
+      rl?.close();
+      rl = null;
+      connection.set('stopped');
+    },
+  };
+}
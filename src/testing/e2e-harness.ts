@@ -16,11 +16,13 @@ type Chat = pkg.Chat;
 
 import { existsSync, rmSync } from 'fs';
 import { join } from 'path';
-import { createWhatsAppClient } from '../whatsapp.js';
+import { createWhatsAppClient, toChatHandle } from '../whatsapp.js';
 import { routeMessage } from '../router.js';
 import { loadState, deleteSession } from '../sessions.js';
 import { ensureProjectsRoot, getProjectPath } from '../projects.js';
-import { config, log, BOT_PREFIX, SERVER_PREFIX } from '../config.js';
+import { config, BOT_PREFIX, SERVER_PREFIX } from '../config.js';
+import { log } from '../logger.js';
+import type { ChatHandle, InboundMessage } from '../types.js';
 
 const TEST_GROUP_NAME = 'Claude: AutomaticE2ETest';
 
@@ -248,35 +250,8 @@ export class E2EHarness {
     // Send to WhatsApp so it shows up in the chat (for visibility)
     await this.testChat.sendMessage(`[TEST INPUT] ${text}`);
 
-    // Create a mock message object that mimics the WhatsApp message structure
-    const mockMessage = {
-      body: text,
-      id: { _serialized: `test-${Date.now()}` },
-      hasMedia: false,
-      getContact: async () => ({
-        pushname: 'E2E Test',
-        number: 'test',
-        id: { _serialized: 'test@c.us' },
-      }),
-    };
-
     // Directly route the message through the system
-    await routeMessage(
-      mockMessage as any,
-      this.testChat,
-      async (responseText: string) => {
-        // Send response to WhatsApp (already formatted by router)
-        await this.testChat!.sendMessage(responseText);
-
-        // Resolve the response promise
-        if (this.responseResolver) {
-          log('info', `[E2E] Captured response (${responseText.length} chars)`);
-          this.responseResolver(responseText);
-          this.responseResolver = null;
-          this.responseRejector = null;
-        }
-      }
-    );
+    await routeMessage(this.createTestMessage(text, false), this.createCapturingChat('response'));
   }
 
   /**
@@ -345,7 +320,7 @@ export class E2EHarness {
   }
 
   /**
-   * Send a simulated media message to trigger the "can't process media" server message.
+   * Send a simulated media message to trigger the "can't process" server message.
    * Used for testing that server messages have the correct prefix.
    *
    * Unlike regular messages that go through the queue, media messages are handled
@@ -386,37 +361,52 @@ export class E2EHarness {
       };
     });
 
-    // Create a mock message with hasMedia: true
-    const mockMessage = {
-      body: '',
-      id: { _serialized: `test-media-${Date.now()}` },
-      hasMedia: true,
-      getContact: async () => ({
-        pushname: 'E2E Test',
-        number: 'test',
-        id: { _serialized: 'test@c.us' },
-      }),
+    // Route the message - it should trigger the "can't process" response
+    // The response will be captured by responseResolver set up above
+    await routeMessage(this.createTestMessage('', true), this.createCapturingChat('server response'));
+
+    // Return the response - this should resolve immediately since the response
+    // was already captured during routeMessage
+    return responsePromise;
+  }
+
+  /**
+   * Build an inbound message as if sent by the test user
+   *
+   * Media messages carry a sticker, which the router can't process.
+   */
+  private createTestMessage(body: string, hasMedia: boolean): InboundMessage {
+    return {
+      body,
+      id: hasMedia ? `test-media-${Date.now()}` : `test-${Date.now()}`,
+      hasMedia,
+      mediaType: hasMedia ? 'sticker' : undefined,
+      fromMe: false,
+      getSender: async () => ({ id: 'test@c.us', name: 'E2E Test' }),
+      downloadMedia: async () => (hasMedia ? { mimetype: 'image/webp-sticker', data: '' } : null),
     };
+  }
 
-    // Route the message - it should trigger the "can't process media" response
-    // The response will be captured by responseResolver set up above
-    await routeMessage(
-      mockMessage as any,
-      this.testChat,
-      async (responseText: string) => {
-        await this.testChat!.sendMessage(responseText);
+  /**
+   * Wrap the test chat so responses are sent to WhatsApp AND captured for assertions
+   */
+  private createCapturingChat(label: string): ChatHandle {
+    const chat = toChatHandle(this.client!, this.testChat!);
+    return {
+      ...chat,
+      sendMessage: async (responseText: string) => {
+        // Send response to WhatsApp (already formatted by router)
+        await chat.sendMessage(responseText);
+
+        // Resolve the response promise
         if (this.responseResolver) {
-          log('info', `[E2E] Captured server response (${responseText.length} chars)`);
+          log('info', `[E2E] Captured ${label} (${responseText.length} chars)`);
           this.responseResolver(responseText);
           this.responseResolver = null;
           this.responseRejector = null;
         }
-      }
-    );
-
-    // Return the response - this should resolve immediately since the response
-    // was already captured during routeMessage
-    return responsePromise;
+      },
+    };
   }
 
   /**
@@ -0,0 +1,132 @@
+/**
+ * Voice note transcription for WhatsClaude
+ *
+ * Voice notes are transcribed locally and routed to Claude as text.
+ * Transcribers are pluggable: a local whisper binary for production,
+ * a stub for tests.
+ */
+
+import { execFile } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { config } from './config.js';
+import { log } from './logger.js';
+import type { MediaAttachment } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Message types that carry audio (ptt = push-to-talk voice note)
+ */
+const AUDIO_MEDIA_TYPES = ['ptt', 'audio'];
+
+/**
+ * Turns audio into text
+ */
+export interface Transcriber {
+  /** Short name for logging */
+  readonly name: string;
+  transcribe(audio: MediaAttachment): Promise<string>;
+}
+
+export interface WhisperTranscriberOptions {
+  /** whisper executable (openai-whisper CLI or compatible) */
+  command: string;
+  /** Model name, e.g. "base" or "small" */
+  model: string;
+  /** Spoken language code; omit to auto-detect */
+  language?: string;
+  /** Give up after this many milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * File extensions whisper uses to pick a decoder
+ */
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/wav': '.wav',
+  'audio/webm': '.webm',
+};
+
+/**
+ * Check whether a message carries audio that can be transcribed
+ */
+export function isAudioMedia(mediaType: string | undefined, mimetype: string): boolean {
+  return (mediaType !== undefined && AUDIO_MEDIA_TYPES.includes(mediaType)) || mimetype.startsWith('audio/');
+}
+
+/**
+ * Create a transcriber that runs a local whisper binary (fully offline)
+ *
+ * Runs `<command> <file> --model <model> --output_format txt --output_dir <dir>`
+ * and reads back the generated .txt file.
+ */
+export function createWhisperTranscriber(options: WhisperTranscriberOptions): Transcriber {
+  const { command, model, language, timeoutMs = 300000 } = options;
+
+  return {
+    name: 'whisper',
+    transcribe: async (audio) => {
+      const workDir = mkdtempSync(join(tmpdir(), 'whatsclaude-audio-'));
+      try {
+        const extension = AUDIO_EXTENSIONS[audio.mimetype.split(';')[0]] ?? '.ogg';
+        const audioPath = join(workDir, `voice${extension}`);
+        writeFileSync(audioPath, Buffer.from(audio.data, 'base64'));
+
+        const args = [audioPath, '--model', model, '--output_format', 'txt', '--output_dir', workDir];
+        if (language) {
+          args.push('--language', language);
+        }
+
+        log('debug', `Running ${command} ${args.join(' ')}`);
+        await execFileAsync(command, args, { timeout: timeoutMs });
+
+        return readFileSync(join(workDir, 'voice.txt'), 'utf-8').trim();
+      } finally {
+        rmSync(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Create a transcriber that returns canned text (for tests)
+ */
+export function createStubTranscriber(
+  result: string | ((audio: MediaAttachment) => string) = 'stub transcript'
+): Transcriber {
+  return {
+    name: 'stub',
+    transcribe: async (audio) => (typeof result === 'function' ? result(audio) : result),
+  };
+}
+
+// Active transcriber (undefined = voice notes are not supported)
+let transcriber: Transcriber | undefined =
+  config.transcription.provider === 'whisper'
+    ? createWhisperTranscriber({
+      command: config.transcription.command,
+      model: config.transcription.model,
+      language: config.transcription.language,
+    })
+    : undefined;
+
+/**
+ * Get the active transcriber, if voice notes are enabled
+ */
+export function getTranscriber(): Transcriber | undefined {
+  return transcriber;
+}
+
+/**
+ * Replace the active transcriber (pass undefined to disable voice notes)
+ */
+export function setTranscriber(next: Transcriber | undefined): void {
+  transcriber = next;
+}
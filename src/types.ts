@@ -14,14 +14,36 @@ export interface StoredMessage {
   groupId: string;
   /** Group display name */
   groupName: string;
-  /** Message sender type */
-  role: 'user' | 'assistant';
+  /** Message sender type ('system' for bot notices such as access denials) */
+  role: 'user' | 'assistant' | 'system';
   /** Sender's phone number or 'claude' */
   sender: string;
   /** Sender's display name */
   senderName: string;
   /** Message content */
   content: string;
+  /** All WhatsApp message IDs when several messages were batched into one prompt */
+  messageIds?: string[];
+  /** Files sent with the message */
+  attachments?: AttachmentInfo[];
+  /** Named session the message belonged to (see !session) */
+  session?: string;
+}
+
+/**
+ * Metadata for a file attached to a message
+ */
+export interface AttachmentInfo {
+  /** How the attachment was passed to Claude */
+  kind: 'image' | 'document';
+  /** MIME type reported by the transport */
+  mimetype: string;
+  /** Original file name, if known */
+  filename?: string;
+  /** Size in bytes */
+  size: number;
+  /** Where the file was saved, relative to the project directory */
+  path: string;
 }
 
 /**
@@ -36,6 +58,83 @@ export interface SessionInfo {
   groupName: string;
   /** ISO timestamp of last activity */
   lastActivity: string;
+  /** Set by !session fork: the next query branches off sessionId instead of continuing it */
+  fork?: boolean;
+  /** Queries answered in this session (counted towards the rollover threshold) */
+  turns?: number;
+  /** Characters of prompts and responses in this session (counted towards the rollover threshold) */
+  contextChars?: number;
+  /** Earlier sessions this one was rolled over from, oldest first */
+  lineage?: string[];
+  /** ISO timestamp of when this session was started from a summary of the previous one */
+  rolledOverAt?: string;
+}
+
+/**
+ * A session moved out of use (idle expiry or !new) that can be restored
+ */
+export interface ArchivedSession extends SessionInfo {
+  /** ISO timestamp of when it was archived */
+  archivedAt: string;
+  /** Why it was archived, e.g. "idle for 24h 0m" */
+  reason: string;
+}
+
+/**
+ * Access level of a group member
+ *
+ * - owner: every tool and command, approves risky tool uses
+ * - contributor: every tool except Bash, day-to-day commands
+ * - readonly: read-only tools, informational commands
+ */
+export type Role = 'owner' | 'contributor' | 'readonly';
+
+/**
+ * Settings a group can override in <projectsRoot>/.whatsclaude-groups/<project>.json
+ */
+export interface GroupSettings {
+  allowedTools: Config['allowedTools'];
+  model?: Config['model'];
+  maxQueueSize: Config['maxQueueSize'];
+  permissionMode: Config['permissionMode'];
+  members?: Config['members'];
+  budget?: Config['budget'];
+}
+
+/**
+ * Spending limits for a group's Claude queries, in US dollars
+ */
+export interface Budget {
+  /** Block new queries once today's cost reaches this */
+  dailyUsd?: number;
+  /** Block new queries once this month's cost reaches this */
+  monthlyUsd?: number;
+}
+
+/**
+ * Tokens, cost and time spent on one Claude query (from the SDK result)
+ */
+export interface QueryUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+  /** Agent turns the query took */
+  numTurns: number;
+}
+
+/**
+ * A rule marking tool uses that need approval from the group
+ */
+export interface ApprovalRule {
+  /** SDK tool name (e.g. "Bash", "WebFetch") */
+  tool: string;
+  /** Regex matched against the tool's main input (command, URL, path); omit to match every use */
+  pattern?: string;
+  /** What the tool use would do, shown in the prompt (e.g. "delete files") */
+  description: string;
 }
 
 /**
@@ -48,6 +147,230 @@ export interface Config {
   groupPrefix: string;
   /** Maximum messages allowed in queue per group */
   maxQueueSize: number;
+  /** Maximum characters per outgoing message before responses are split */
+  maxMessageLength: number;
+  /** Milliseconds a task must run before progress updates are sent */
+  progressThresholdMs: number;
+  /** Minimum milliseconds between two progress updates */
+  progressIntervalMs: number;
+  /** Milliseconds to wait for more messages before sending a batch to Claude (0 disables batching) */
+  batchWindowMs: number;
+  /** Archive sessions idle for this many milliseconds (0 disables expiry) */
+  sessionIdleMs: number;
+  /** How often to check for idle sessions, in milliseconds */
+  sessionSweepIntervalMs: number;
+  /** Rotate history.jsonl into a compressed segment once it reaches this size (0 disables) */
+  historyMaxBytes: number;
+  /** Rotate history.jsonl once it spans this many milliseconds of messages (0 disables) */
+  historyMaxAgeMs: number;
+  /** Continue long sessions in a new session seeded with a summary */
+  rollover: {
+    /** Roll over after this many queries (0 disables) */
+    maxTurns: number;
+    /** Roll over once prompts and responses add up to this many characters (0 disables) */
+    maxContextChars: number;
+  };
+  /** Tools Claude may use (default for groups without an override) */
+  allowedTools: string[];
+  /** Claude model (SDK default if unset) */
+  model?: string;
+  /** SDK permission mode */
+  permissionMode: 'default' | 'acceptEdits' | 'plan';
+  /** Allowlist of phone numbers → role; unset lets everyone in as owner */
+  members?: Record<string, Role>;
+  /** Spending limits (default for groups without an override) */
+  budget?: Budget;
+  /** Interactive approval of risky tool uses */
+  approval: {
+    /** Ask the group before running risky tool uses */
+    enabled: boolean;
+    /** Milliseconds to wait for a reply before denying */
+    timeoutMs: number;
+    rules: ApprovalRule[];
+  };
+  /** Voice note transcription */
+  transcription: {
+    /** Transcriber to use ('none' disables voice notes) */
+    provider: 'whisper' | 'none';
+    /** whisper executable */
+    command: string;
+    /** whisper model name */
+    model: string;
+    /** Spoken language code (auto-detected if unset) */
+    language?: string;
+  };
+  /** Embedded HTTP server for health checks and status */
+  http: {
+    enabled: boolean;
+    /** Address to bind (localhost unless the endpoints should be reachable from elsewhere) */
+    host: string;
+    port: number;
+    /** Report unhealthy after being disconnected this long, in milliseconds */
+    disconnectedGraceMs: number;
+    /** Bearer token the dashboard API requires (required unless bound to localhost) */
+    dashboardToken?: string;
+    /** Host names (besides localhost and host) that requests may be addressed to */
+    allowedHosts: string[];
+  };
+  /** Reconnecting after the transport drops */
+  reconnect: {
+    /** Wait before the first attempt, in milliseconds (doubles with each failure) */
+    initialDelayMs: number;
+    /** Longest wait between attempts, in milliseconds */
+    maxDelayMs: number;
+    /** An attempt that hasn't connected after this long has failed, in milliseconds */
+    attemptTimeoutMs: number;
+    /** Failed attempts in a row before the circuit opens and an alert goes out */
+    maxAttempts: number;
+    /** How long an open circuit waits before trying again, in milliseconds */
+    cooldownMs: number;
+  };
+  /** Where alerts (re-authentication needed, reconnecting failing) are sent */
+  alerts: {
+    /** Shell command run with the alert as JSON on stdin */
+    command?: string;
+    /** URL the alert is POSTed to as JSON */
+    webhookUrl?: string;
+    /** Email through an SMTP server (no TLS or authentication - meant for a local relay) */
+    email?: {
+      to: string[];
+      from: string;
+      host: string;
+      port: number;
+    };
+  };
   /** Logging level */
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  /** Log output */
+  logging: {
+    /** Console output as readable text or JSON lines */
+    format: 'text' | 'json';
+    /** Also write JSON lines to this file */
+    file?: string;
+    /** Rotate the file once it reaches this size, in bytes (0 = never) */
+    maxBytes: number;
+    /** Rotated files to keep */
+    maxFiles: number;
+  };
+  /** Messaging transport to connect */
+  transport: 'whatsapp' | 'terminal';
+}
+
+/**
+ * Identity of a message sender, resolved by the transport
+ */
+export interface SenderInfo {
+  /** Transport-specific sender ID (e.g. WhatsApp contact ID) */
+  id: string;
+  /** Sender's display name */
+  name: string;
+}
+
+/**
+ * A downloaded media attachment
+ */
+export interface MediaAttachment {
+  /** MIME type (e.g. "image/jpeg") */
+  mimetype: string;
+  /** Base64-encoded file contents */
+  data: string;
+  /** Original file name, if the transport provides one */
+  filename?: string;
+}
+
+/**
+ * A transport-neutral inbound chat message
+ */
+export interface InboundMessage {
+  /** Transport-specific message ID */
+  id: string;
+  /** Message text */
+  body: string;
+  /** Whether the message carries an attachment */
+  hasMedia: boolean;
+  /** Transport message type for media (e.g. "image", "document", "ptt") */
+  mediaType?: string;
+  /** Whether the message was sent from the bridge's own account */
+  fromMe: boolean;
+  /** Resolve the sender's identity (may throw if it cannot be resolved) */
+  getSender(): Promise<SenderInfo>;
+  /** Download the attachment (null if there is none or it's unavailable) */
+  downloadMedia(): Promise<MediaAttachment | null>;
+}
+
+/**
+ * A transport-neutral handle to the chat a message arrived in
+ */
+export interface ChatHandle {
+  /** Transport-specific chat ID */
+  id: string;
+  /** Chat display name */
+  name: string;
+  /** Whether this is a group chat */
+  isGroup: boolean;
+  /** Send a text message to the chat */
+  sendMessage(text: string): Promise<void>;
+  /** Show a typing indicator */
+  sendTyping(): Promise<void>;
+  /** Clear the typing indicator */
+  clearTyping(): Promise<void>;
+}
+
+/**
+ * Callbacks a transport invokes as events arrive
+ */
+export interface TransportHandlers {
+  onMessage?: (message: InboundMessage, chat: ChatHandle) => Promise<void>;
+  onReady?: () => void;
+}
+
+/**
+ * Where a transport's connection stands
+ *
+ * - qr: waiting for the QR code to be scanned
+ * - auth_failure: the saved login was rejected and needs a new QR scan
+ */
+export type ConnectionStatus = 'starting' | 'qr' | 'authenticated' | 'ready' | 'disconnected' | 'auth_failure' | 'stopped';
+
+/**
+ * A transport's connection state, for health checks
+ */
+export interface ConnectionState {
+  status: ConnectionStatus;
+  /** ISO timestamp of the last status change */
+  since: string;
+  /** Transport-specific detail, e.g. the WhatsApp Web state or disconnect reason */
+  detail?: string;
+  /** ISO timestamp of when the transport last became ready */
+  lastReadyAt?: string;
+  /** Reconnection progress, for transports that reconnect by themselves */
+  reconnect?: ReconnectState;
+}
+
+/**
+ * Where a transport's reconnection supervisor stands
+ */
+export interface ReconnectState {
+  /** Failed attempts in a row */
+  attempts: number;
+  /** 'open' while waiting out the cooldown after too many failures, 'half_open' for the trial attempt after it */
+  circuit: 'closed' | 'open' | 'half_open';
+  /** ISO timestamp of the next scheduled attempt */
+  nextAttemptAt?: string;
+  /** The account was logged out and needs a new QR code scan */
+  loggedOut: boolean;
+}
+
+/**
+ * A messaging transport (WhatsApp, terminal, ...)
+ */
+export interface Transport {
+  /** Short transport name for logging */
+  readonly name: string;
+  /** Connect and start delivering messages to the handlers */
+  start(): Promise<void>;
+  /** Disconnect and release resources */
+  stop(): Promise<void>;
+  /** Current connection state */
+  getState(): ConnectionState;
 }
@@ -0,0 +1,194 @@
+/**
+ * Token and cost accounting for WhatsClaude
+ *
+ * Every Claude query's usage (tokens, cost, duration, turns) is appended to
+ * <projectsRoot>/.whatsclaude-usage/<project>.jsonl, keyed by the message it
+ * answered. The ledger lives outside the project, like the group settings,
+ * so Claude can't edit it. The ledger is summed per period and per sender for
+ * !usage, and checked against the group's daily/monthly budget before a
+ * new query is accepted.
+ */
+
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { appendFileSync, existsSync, readFileSync, renameSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { log } from './logger.js';
+import { ensureDir } from './utils.js';
+import type { Budget, QueryUsage } from './types.js';
+
+/**
+ * What a usage record was spent on
+ */
+export type UsageKind = 'query' | 'rollover' | 'import';
+
+/**
+ * One line of the usage ledger
+ */
+export interface UsageRecord extends QueryUsage {
+  /** ISO timestamp */
+  ts: string;
+  groupId: string;
+  /** History message the query answered (or the rollover/import it belonged to) */
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  kind: UsageKind;
+}
+
+/**
+ * Usage added up over a set of records
+ */
+export interface UsageTotals extends QueryUsage {
+  queries: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  /** Sender name → totals, most expensive first */
+  bySender: [string, UsageTotals][];
+}
+
+/**
+ * Get the usage ledger path for a project
+ */
+export function getUsagePath(projectPath: string): string {
+  return join(dirname(projectPath), '.whatsclaude-usage', `${basename(projectPath)}.jsonl`);
+}
+
+/**
+ * Move a ledger from where older versions kept it (inside the project)
+ */
+function migrateLegacyLedger(projectPath: string, usagePath: string): void {
+  const legacyPath = join(projectPath, '.whatsclaude', 'usage.jsonl');
+  if (existsSync(usagePath) || !existsSync(legacyPath)) {
+    return;
+  }
+  ensureDir(dirname(usagePath));
+  renameSync(legacyPath, usagePath);
+  log('info', `Moved usage ledger ${legacyPath} to ${usagePath}`);
+}
+
+type TokenCounts = Partial<Record<'input_tokens' | 'output_tokens' | 'cache_read_input_tokens' | 'cache_creation_input_tokens', number>>;
+
+/**
+ * Pull usage out of an SDK result message
+ */
+export function extractUsage(result: SDKResultMessage): QueryUsage {
+  const usage: TokenCounts = result.usage;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+    costUsd: result.total_cost_usd,
+    durationMs: result.duration_ms,
+    numTurns: result.num_turns,
+  };
+}
+
+/**
+ * Append a usage record to the project's ledger
+ */
+export function recordUsage(projectPath: string, record: UsageRecord): void {
+  const usagePath = getUsagePath(projectPath);
+  migrateLegacyLedger(projectPath, usagePath);
+  ensureDir(dirname(usagePath));
+  appendFileSync(usagePath, JSON.stringify(record) + '\n');
+}
+
+/**
+ * Read a project's usage records, optionally only those at or after a time
+ */
+export function readUsage(projectPath: string, since?: Date): UsageRecord[] {
+  const usagePath = getUsagePath(projectPath);
+  migrateLegacyLedger(projectPath, usagePath);
+  if (!existsSync(usagePath)) {
+    return [];
+  }
+
+  const records: UsageRecord[] = [];
+  const sinceTs = since?.toISOString();
+  for (const line of readFileSync(usagePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as UsageRecord;
+      if (!sinceTs || record.ts >= sinceTs) {
+        records.push(record);
+      }
+    } catch {
+      log('warn', `Skipping unparseable line in ${usagePath}`);
+    }
+  }
+  return records;
+}
+
+function emptyTotals(): UsageTotals {
+  return { queries: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, durationMs: 0, numTurns: 0 };
+}
+
+function addUsage(totals: UsageTotals, record: UsageRecord): void {
+  totals.queries++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.cacheCreationTokens += record.cacheCreationTokens;
+  totals.costUsd += record.costUsd;
+  totals.durationMs += record.durationMs;
+  totals.numTurns += record.numTurns;
+}
+
+/**
+ * Add up usage records, in total and per sender
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const total = emptyTotals();
+  const bySender: Map<string, UsageTotals> = new Map();
+  for (const record of records) {
+    addUsage(total, record);
+    const senderTotals = bySender.get(record.senderName) ?? emptyTotals();
+    addUsage(senderTotals, record);
+    bySender.set(record.senderName, senderTotals);
+  }
+  return { total, bySender: [...bySender].sort((a, b) => b[1].costUsd - a[1].costUsd) };
+}
+
+/**
+ * Start of the current day and month (server local time), when budgets reset
+ */
+export function getBudgetPeriods(now: Date = new Date()): { day: Date; month: Date } {
+  return {
+    day: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+    month: new Date(now.getFullYear(), now.getMonth(), 1),
+  };
+}
+
+/**
+ * Format a cost in US dollars
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * Check a project's spending against its budget
+ *
+ * @returns Why new queries are blocked, or undefined if they're allowed
+ */
+export function checkBudget(projectPath: string, budget: Budget | undefined, now: Date = new Date()): string | undefined {
+  if (!budget?.dailyUsd && !budget?.monthlyUsd) {
+    return undefined;
+  }
+
+  const { day, month } = getBudgetPeriods(now);
+  const records = readUsage(projectPath, month);
+  const monthCost = summarizeUsage(records).total.costUsd;
+  if (budget.monthlyUsd && monthCost >= budget.monthlyUsd) {
+    return `Monthly budget of ${formatCost(budget.monthlyUsd)} reached (${formatCost(monthCost)} spent). It resets on the 1st.`;
+  }
+
+  const dayCost = summarizeUsage(records.filter((r) => r.ts >= day.toISOString())).total.costUsd;
+  if (budget.dailyUsd && dayCost >= budget.dailyUsd) {
+    return `Daily budget of ${formatCost(budget.dailyUsd)} reached (${formatCost(dayCost)} spent). It resets at midnight.`;
+  }
+  return undefined;
+}
@@ -4,10 +4,13 @@ type ClientType = InstanceType<typeof Client>;
 type Message = pkg.Message;
 type Chat = pkg.Chat;
 import qrcode from 'qrcode-terminal';
-import { BOT_PREFIX, SERVER_PREFIX, log } from './config.js';
-import { truncate } from './utils.js';
+import { BOT_PREFIX, SERVER_PREFIX, config } from './config.js';
+import { log } from './logger.js';
+import { getErrorMessage, truncate } from './utils.js';
+import { createConnectionTracker } from './connection.js';
+import { createConnectionSupervisor } from './supervisor.js';
+import type { ChatHandle, InboundMessage, Transport, TransportHandlers } from './types.js';
 
-const GROUP_PREFIX = 'Claude:';
 
 export interface WhatsAppHandlers {
   onMessage?: (message: Message, chat: Chat) => Promise<void>;
@@ -15,7 +18,7 @@ export interface WhatsAppHandlers {
 }
 
 export function createWhatsAppClient(handlers?: WhatsAppHandlers): ClientType {
-  console.log('Creating WhatsApp client...');
+  log('info', 'Creating WhatsApp client...');
 
   // Use headless: false for debugging - set to true for production
   const isDebug = process.env.DEBUG_WHATSAPP === 'true';
@@ -39,22 +42,23 @@ export function createWhatsAppClient(handlers?: WhatsAppHandlers): ClientType {
 
   // Loading states
   client.on('loading_screen', (percent, message) => {
-    console.log(`Loading: ${percent}% - ${message}`);
+    log('info', `Loading: ${percent}% - ${message}`);
   });
 
   // Change state event - useful for debugging
   client.on('change_state', (state) => {
-    console.log('State changed:', state);
+    log('info', 'State changed:', state);
   });
 
   // Remote session saved
   client.on('remote_session_saved', () => {
-    console.log('Remote session saved');
+    log('info', 'Remote session saved');
   });
 
   // QR Code for first-time auth
   client.on('qr', (qr) => {
-    console.log('QR event received!');
+    log('info', 'QR code received, waiting for scan');
+    // The QR code is terminal UI rather than a log line
     console.log('\n📱 Scan this QR code with WhatsApp:\n');
     qrcode.generate(qr, { small: true });
     console.log('\nOpen WhatsApp → Settings → Linked Devices → Link a Device\n');
@@ -62,25 +66,23 @@ export function createWhatsAppClient(handlers?: WhatsAppHandlers): ClientType {
 
   // Ready
   client.on('ready', () => {
-    console.log('\n✅ WhatsApp connected!\n');
-    console.log(`Listening for messages in "${GROUP_PREFIX}" groups...\n`);
+    log('info', '✅ WhatsApp connected!');
+    log('info', `Listening for messages in "${config.groupPrefix}" groups...`);
     handlers?.onReady?.();
   });
 
   // Authentication
   client.on('authenticated', () => {
-    console.log('🔐 Authenticated successfully');
+    log('info', '🔐 Authenticated successfully');
   });
 
   client.on('auth_failure', (msg) => {
-    console.error('❌ Authentication failed:', msg);
+    log('error', '❌ Authentication failed:', msg);
   });
 
-  // Disconnection handling
+  // Disconnection handling (createWhatsAppTransport reconnects)
   client.on('disconnected', (reason) => {
-    console.log('📴 Disconnected:', reason);
-    console.log('Attempting to reconnect...');
-    client.initialize().catch(console.error);
+    log('warn', '📴 Disconnected:', reason);
   });
 
   // Message handling - use message_create to catch messages from same account on different devices
@@ -95,8 +97,8 @@ export function createWhatsAppClient(handlers?: WhatsAppHandlers): ClientType {
         return;
       }
 
-      // Filter out empty messages (media without captions, system events, etc.)
-      if (!message.body.trim()) {
+      // Filter out empty messages (system events, etc.) - media without captions is still routed
+      if (!message.body.trim() && !message.hasMedia) {
         log('debug', 'Ignoring empty message');
         return;
       }
@@ -105,7 +107,7 @@ export function createWhatsAppClient(handlers?: WhatsAppHandlers): ClientType {
 
       // Only handle groups with Claude: prefix
       // Guard against undefined chat.name (can happen during group creation/sync)
-      if (!chat.isGroup || !chat.name || !chat.name.startsWith(GROUP_PREFIX)) {
+      if (!chat.isGroup || !chat.name || !chat.name.startsWith(config.groupPrefix)) {
         return;
       }
 
@@ -115,9 +117,158 @@ export function createWhatsAppClient(handlers?: WhatsAppHandlers): ClientType {
         await handlers.onMessage(message, chat);
       }
     } catch (error) {
-      console.error('Error handling message:', error);
+      log('error', 'Error handling message:', getErrorMessage(error));
     }
   });
 
   return client;
 }
+
+/**
+ * Adapt a whatsapp-web.js message to the transport-neutral interface
+ */
+export function toInboundMessage(message: Message): InboundMessage {
+  return {
+    id: message.id._serialized,
+    body: message.body,
+    hasMedia: message.hasMedia,
+    mediaType: message.hasMedia ? message.type : undefined,
+    fromMe: message.fromMe,
+    getSender: async () => {
+      const contact = await message.getContact();
+      return {
+        id: contact.id._serialized,
+        name: contact.pushname || contact.number || 'Unknown',
+      };
+    },
+    downloadMedia: async () => {
+      if (!message.hasMedia) return null;
+      // downloadMedia() resolves undefined when the media is no longer available
+      const media = await message.downloadMedia();
+      if (!media) return null;
+      return {
+        mimetype: media.mimetype,
+        data: media.data,
+        ...(media.filename && { filename: media.filename }),
+      };
+    },
+  };
+}
+
+/**
+ * Adapt a whatsapp-web.js chat to the transport-neutral interface
+ */
+export function toChatHandle(client: ClientType, chat: Chat): ChatHandle {
+  const chatId = chat.id._serialized;
+  return {
+    id: chatId,
+    name: chat.name,
+    isGroup: chat.isGroup,
+    sendMessage: async (text) => {
+      // Get fresh chat object to ensure we can send
+      // The original chat from message.getChat() may be stale for
+      // fromMe messages sent from another device (phone, web browser)
+      const freshChat = await client.getChatById(chatId);
+      await freshChat.sendMessage(text);
+    },
+    sendTyping: async () => {
+      await chat.sendStateTyping();
+    },
+    clearTyping: async () => {
+      await chat.clearState();
+    },
+  };
+}
+
+/**
+ * Disconnect reasons and states meaning the linked device was removed
+ */
+const LOGGED_OUT_STATES = ['LOGOUT', 'UNPAIRED', 'UNPAIRED_IDLE'];
+
+/**
+ * Check whether a disconnect reason or WhatsApp Web state means the account was logged out
+ */
+export function isLoggedOutState(state: string): boolean {
+  return LOGGED_OUT_STATES.includes(state);
+}
+
+/**
+ * Create a transport backed by a whatsapp-web.js client
+ */
+export function createWhatsAppTransport(handlers?: TransportHandlers): Transport {
+  const client: ClientType = createWhatsAppClient({
+    onReady: handlers?.onReady,
+    onMessage: async (message, chat) => {
+      await handlers?.onMessage?.(toInboundMessage(message), toChatHandle(client, chat));
+    },
+  });
+
+  // Follow the client's events for health checks
+  const connection = createConnectionTracker('whatsapp');
+
+  // Reconnect with backoff after drops; alert when a new QR code scan is needed
+  const supervisor = createConnectionSupervisor({
+    name: 'whatsapp',
+    ...config.reconnect,
+    reconnect: async () => {
+      // A fresh browser session is more reliable than re-initializing the old one
+      await client.destroy().catch((error) => log('debug', 'Could not close the old WhatsApp session:', getErrorMessage(error)));
+      await client.initialize();
+    },
+  });
+
+  client.on('qr', () => {
+    // Asked to scan again after having been logged in: the session expired or was removed
+    if (connection.get().lastReadyAt) {
+      supervisor.loggedOut('WhatsApp asked for a new QR code scan');
+    }
+    connection.set('qr');
+  });
+  client.on('authenticated', () => connection.set('authenticated'));
+  client.on('auth_failure', (msg) => {
+    connection.set('auth_failure', msg);
+    supervisor.loggedOut(`WhatsApp rejected the saved login (${msg})`);
+  });
+  client.on('ready', () => {
+    connection.set('ready');
+    supervisor.connected();
+  });
+  client.on('change_state', (state) => {
+    const { status, lastReadyAt } = connection.get();
+    // Once connected, any state but CONNECTED (OPENING, CONFLICT, ...) means messages can't be delivered
+    connection.set(lastReadyAt ? (state === 'CONNECTED' ? 'ready' : 'disconnected') : status, String(state));
+    if (isLoggedOutState(String(state))) {
+      supervisor.loggedOut(`WhatsApp unlinked this device (${state})`);
+    }
+  });
+  client.on('disconnected', (reason) => {
+    connection.set('disconnected', String(reason));
+    if (isLoggedOutState(String(reason))) {
+      supervisor.loggedOut(`WhatsApp logged out (${reason})`);
+    } else {
+      supervisor.disconnected();
+    }
+  });
+
+  return {
+    name: 'whatsapp',
+    getState: () => ({ ...connection.get(), reconnect: supervisor.getState() }),
+    start: async () => {
+      // Start the client with timeout
+      log('info', 'Initializing WhatsApp client...');
+      log('info', 'This may take a minute on first run (downloading browser)...');
+
+      const initTimeout = 300000; // 5 minutes (WhatsApp Web can be slow)
+      const timeoutPromise = new Promise((_, reject) => {
+        setTimeout(() => reject(new Error(`Initialization timed out after ${initTimeout / 1000}s`)), initTimeout);
+      });
+
+      await Promise.race([client.initialize(), timeoutPromise]);
+    },
+    stop: async () => {
+      supervisor.stop();
+      await client.destroy();
+      connection.set('stopped');
+    },
+  };
+}
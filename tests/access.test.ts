@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getPermittedTools, getSenderRole, hasRole, lowestRole, normalizeSenderId } from '../src/access.js';
+
+describe('access', () => {
+  describe('normalizeSenderId', () => {
+    it('compares WhatsApp IDs and formatted phone numbers by digits', () => {
+      expect(normalizeSenderId('15551234567@c.us')).toBe('15551234567');
+      expect(normalizeSenderId('+1 (555) 123-4567')).toBe('15551234567');
+    });
+
+    it('lowercases IDs without digits', () => {
+      expect(normalizeSenderId('terminal:Alice')).toBe('terminal:alice');
+    });
+  });
+
+  describe('getSenderRole', () => {
+    const members = { '+1 555 123 4567': 'contributor', '4420000000': 'readonly' } as const;
+
+    it('treats everyone as owner without an allowlist', () => {
+      expect(getSenderRole(undefined, '999@c.us')).toBe('owner');
+    });
+
+    it('looks up allowlisted senders', () => {
+      expect(getSenderRole(members, '15551234567@c.us')).toBe('contributor');
+      expect(getSenderRole(members, '4420000000@c.us')).toBe('readonly');
+    });
+
+    it('rejects senders not on the allowlist', () => {
+      expect(getSenderRole(members, '999@c.us')).toBeNull();
+    });
+
+    it('always lets our own account in', () => {
+      expect(getSenderRole(members, 'self')).toBe('owner');
+    });
+  });
+
+  describe('roles', () => {
+    it('orders roles by privilege', () => {
+      expect(hasRole('owner', 'contributor')).toBe(true);
+      expect(hasRole('contributor', 'contributor')).toBe(true);
+      expect(hasRole('readonly', 'contributor')).toBe(false);
+    });
+
+    it('picks the least privileged role', () => {
+      expect(lowestRole(['owner', 'readonly', 'contributor'])).toBe('readonly');
+      expect(lowestRole(['owner'])).toBe('owner');
+    });
+
+    it('limits tools by role', () => {
+      const tools = ['Read', 'Write', 'Bash', 'Grep', 'MultiEdit', 'NotebookEdit', 'Task'];
+      expect(getPermittedTools('owner', tools)).toEqual(tools);
+      expect(getPermittedTools('contributor', tools)).toEqual(['Read', 'Write', 'Grep', 'MultiEdit', 'NotebookEdit']);
+      expect(getPermittedTools('readonly', tools)).toEqual(['Read', 'Grep']);
+    });
+  });
+});
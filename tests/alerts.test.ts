@@ -0,0 +1,138 @@
+import { describe, it, expect, afterAll, afterEach } from 'vitest';
+import { createServer as createHttpServer } from 'http';
+import { createServer as createTcpServer, type AddressInfo, type Server } from 'net';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createCommandSink,
+  createWebhookSink,
+  getAlertSinks,
+  sendAlert,
+  sendMail,
+  setAlertSinks,
+  type Alert,
+  type AlertSink,
+} from '../src/alerts.js';
+
+const workDir = mkdtempSync(join(tmpdir(), 'whatsclaude-alerts-'));
+const alert: Alert = { kind: 'auth_required', transport: 'whatsapp', message: 'WhatsApp logged out (LOGOUT)', ts: '2026-01-01T00:00:00.000Z' };
+
+/**
+ * A fake SMTP server that accepts everything and records the session
+ */
+function startSmtpServer(transcript: string[]): Promise<Server> {
+  const server = createTcpServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        transcript.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-localhost\r\n250 8BITMIME\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('alerts', () => {
+  const original = getAlertSinks();
+
+  afterEach(() => {
+    setAlertSinks(original);
+  });
+
+  it('runs a command with the alert on stdin and in the environment', async () => {
+    const out = join(workDir, 'alert.json');
+    await createCommandSink(`cat > "${out}" && echo "$WHATSCLAUDE_ALERT_KIND" >> "${out}"`).send(alert);
+
+    const [json, kind] = readFileSync(out, 'utf-8').trim().split('\n');
+    expect(JSON.parse(json)).toMatchObject({ kind: 'auth_required', title: 'WhatsApp needs a new QR code scan' });
+    expect(kind).toBe('auth_required');
+
+    await expect(createCommandSink('echo broken >&2; exit 3').send(alert)).rejects.toThrow('broken');
+  });
+
+  it('POSTs the alert to a webhook', async () => {
+    const received: unknown[] = [];
+    const server = createHttpServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.writeHead(req.url === '/fail' ? 500 : 204).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await createWebhookSink(`http://127.0.0.1:${port}/hook`).send(alert);
+      expect(received[0]).toMatchObject({ kind: 'auth_required', message: alert.message });
+      await expect(createWebhookSink(`http://127.0.0.1:${port}/fail`).send(alert)).rejects.toThrow('500');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('sends email through an SMTP server', async () => {
+    const transcript: string[] = [];
+    const server = await startSmtpServer(transcript);
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await sendMail({
+        host: '127.0.0.1',
+        port,
+        from: 'bridge@example.com',
+        to: ['ops@example.com', 'me@example.com'],
+        subject: 'WhatsClaude: test',
+        text: 'Line one\n.starts with a dot',
+      });
+    } finally {
+      server.close();
+    }
+
+    expect(transcript).toContain('MAIL FROM:<bridge@example.com>');
+    expect(transcript).toContain('RCPT TO:<me@example.com>');
+    expect(transcript).toContain('Subject: WhatsClaude: test');
+    expect(transcript).toContain('..starts with a dot');
+    expect(transcript.at(-1)).toBe('QUIT');
+  });
+
+  it('sends to every sink even when one fails', async () => {
+    const delivered: Alert[] = [];
+    const sinks: AlertSink[] = [
+      { name: 'broken', send: async () => { throw new Error('down'); } },
+      { name: 'memory', send: async (a) => { delivered.push(a); } },
+    ];
+    setAlertSinks(sinks);
+
+    await sendAlert('reconnect_failing', 'whatsapp', '10 reconnect attempts failed');
+
+    expect(delivered).toEqual([expect.objectContaining({ kind: 'reconnect_failing', transport: 'whatsapp' })]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  classifyAttachment,
+  sanitizeFilename,
+  saveAttachment,
+  buildAttachmentPrompt,
+  UPLOADS_DIR,
+} from '../src/attachments.js';
+
+describe('attachments', () => {
+  describe('classifyAttachment', () => {
+    it('treats supported images as vision input', () => {
+      expect(classifyAttachment('image', 'image/jpeg')).toBe('image');
+    });
+
+    it('treats documents as files', () => {
+      expect(classifyAttachment('document', 'application/pdf')).toBe('document');
+    });
+
+    it('rejects other media', () => {
+      expect(classifyAttachment('video', 'video/mp4')).toBeNull();
+      expect(classifyAttachment('ptt', 'audio/ogg; codecs=opus')).toBeNull();
+    });
+  });
+
+  describe('sanitizeFilename', () => {
+    it('strips path separators and hidden prefixes', () => {
+      expect(sanitizeFilename('../../etc/passwd')).toBe('etc_passwd');
+      expect(sanitizeFilename('my report (final).pdf')).toBe('my_report_final_.pdf');
+    });
+  });
+
+  describe('saveAttachment', () => {
+    let projectPath: string;
+
+    beforeEach(() => {
+      projectPath = mkdtempSync(join(tmpdir(), 'whatsclaude-attachments-'));
+    });
+
+    afterEach(() => {
+      rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it('saves documents under the uploads directory', () => {
+      const data = Buffer.from('hello').toString('base64');
+      const prepared = saveAttachment(projectPath, 'msg-1', { mimetype: 'text/plain', data, filename: 'notes.txt' }, 'document');
+
+      expect(prepared.image).toBeUndefined();
+      expect(prepared.info.path.startsWith(UPLOADS_DIR)).toBe(true);
+      expect(prepared.info.path.endsWith('-notes.txt')).toBe(true);
+      expect(prepared.info.size).toBe(5);
+      expect(readFileSync(join(projectPath, prepared.info.path), 'utf-8')).toBe('hello');
+    });
+
+    it('returns vision input for images', () => {
+      const prepared = saveAttachment(projectPath, 'msg-2', { mimetype: 'image/png', data: 'AAAA' }, 'image');
+      expect(prepared.image).toEqual({ mediaType: 'image/png', data: 'AAAA' });
+      expect(prepared.info.path.endsWith('-msg-2.png')).toBe(true);
+    });
+  });
+
+  describe('buildAttachmentPrompt', () => {
+    it('tells Claude where the file landed', () => {
+      const prompt = buildAttachmentPrompt('summarize this', {
+        kind: 'document',
+        mimetype: 'application/pdf',
+        filename: 'spec.pdf',
+        size: 2048,
+        path: '.whatsclaude/uploads/x-spec.pdf',
+      });
+      expect(prompt).toBe(
+        'summarize this\n\n[The user sent a file "spec.pdf" which was saved at .whatsclaude/uploads/x-spec.pdf (application/pdf, 2.0 KB).]'
+      );
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createBatcher, combinePrompts } from '../src/batcher.js';
+
+describe('batcher', () => {
+  describe('createBatcher', () => {
+    let flushed: [string, number[]][];
+    const onFlush = (key: string, items: number[]) => {
+      flushed.push([key, items]);
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      flushed = [];
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('coalesces items within the window', () => {
+      const batcher = createBatcher(1000, onFlush);
+      batcher.add('g', 1);
+      vi.advanceTimersByTime(800);
+      batcher.add('g', 2);
+      vi.advanceTimersByTime(800);
+      expect(flushed).toEqual([]);
+      expect(batcher.has('g')).toBe(true);
+
+      vi.advanceTimersByTime(200);
+      expect(flushed).toEqual([['g', [1, 2]]]);
+      expect(batcher.has('g')).toBe(false);
+    });
+
+    it('keeps groups separate', () => {
+      const batcher = createBatcher(1000, onFlush);
+      batcher.add('a', 1);
+      batcher.add('b', 2);
+      vi.advanceTimersByTime(1000);
+      expect(flushed).toEqual([['a', [1]], ['b', [2]]]);
+    });
+
+    it('flushes immediately when the window is 0', () => {
+      const batcher = createBatcher(0, onFlush);
+      batcher.add('g', 1);
+      expect(flushed).toEqual([['g', [1]]]);
+    });
+
+    it('drops cancelled batches', () => {
+      const batcher = createBatcher(1000, onFlush);
+      batcher.add('g', 1);
+      batcher.add('g', 2);
+      expect(batcher.cancel('g')).toEqual([1, 2]);
+      vi.advanceTimersByTime(1000);
+      expect(flushed).toEqual([]);
+    });
+  });
+
+  describe('combinePrompts', () => {
+    it('returns a single prompt unchanged', () => {
+      expect(combinePrompts([{ senderName: 'Ann', prompt: 'hi' }])).toBe('hi');
+    });
+
+    it('joins messages from one sender as paragraphs', () => {
+      expect(combinePrompts([
+        { senderName: 'Ann', prompt: 'fix the bug' },
+        { senderName: 'Ann', prompt: 'in login.ts' },
+      ])).toBe('fix the bug\n\nin login.ts');
+    });
+
+    it('attributes messages from several senders', () => {
+      expect(combinePrompts([
+        { senderName: 'Ann', prompt: 'fix the bug' },
+        { senderName: 'Ben', prompt: 'and add a test' },
+      ])).toBe('Ann: fix the bug\n\nBen: and add a test');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText, formatBotResponseChunks, formatServerMessageChunks } from '../src/chunker.js';
+import { BOT_PREFIX, SERVER_PREFIX } from '../src/config.js';
+
+describe('chunker', () => {
+  describe('chunkText', () => {
+    it('returns short text unchanged', () => {
+      expect(chunkText('hello', 100)).toEqual(['hello']);
+    });
+
+    it('splits at paragraph boundaries', () => {
+      const text = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].join('\n\n');
+      expect(chunkText(text, 90)).toEqual([
+        `${'a'.repeat(40)}\n\n${'b'.repeat(40)}`,
+        'c'.repeat(40),
+      ]);
+    });
+
+    it('keeps a fenced code block intact when it fits', () => {
+      const code = '```ts\nconst a = 1;\n\nconst b = 2;\n```';
+      const text = `${'x'.repeat(50)}\n\n${code}`;
+      const chunks = chunkText(text, 60);
+      expect(chunks).toEqual(['x'.repeat(50), code]);
+    });
+
+    it('re-opens fenced code blocks split across chunks', () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const text = `\`\`\`python\n${lines.join('\n')}\n\`\`\``;
+      const chunks = chunkText(text, 60);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.length).toBeLessThanOrEqual(60);
+        expect(chunk.startsWith('```python\n')).toBe(true);
+        expect(chunk.endsWith('\n```')).toBe(true);
+      }
+      const body = chunks.map((c) => c.slice('```python\n'.length, -'\n```'.length)).join('\n');
+      expect(body).toBe(lines.join('\n'));
+    });
+
+    it('splits overlong paragraphs at spaces', () => {
+      const text = Array.from({ length: 30 }, () => 'word').join(' ');
+      const chunks = chunkText(text, 20);
+      for (const chunk of chunks) {
+        expect(chunk.length).toBeLessThanOrEqual(20);
+      }
+      expect(chunks.join(' ')).toBe(text);
+    });
+
+    it('hard-cuts text without spaces', () => {
+      expect(chunkText('a'.repeat(25), 10)).toEqual(['a'.repeat(10), 'a'.repeat(10), 'a'.repeat(5)]);
+    });
+  });
+
+  describe('formatBotResponseChunks', () => {
+    it('prefixes a single response without numbering', () => {
+      expect(formatBotResponseChunks('hi', 100)).toEqual([`${BOT_PREFIX}hi`]);
+    });
+
+    it('numbers and prefixes every chunk', () => {
+      const text = Array.from({ length: 5 }, (_, i) => `${i}`.repeat(60)).join('\n\n');
+      const chunks = formatBotResponseChunks(text, 100);
+
+      expect(chunks.length).toBe(5);
+      chunks.forEach((chunk, i) => {
+        expect(chunk.startsWith(`${BOT_PREFIX}(${i + 1}/5)\n`)).toBe(true);
+        expect(chunk.length).toBeLessThanOrEqual(100);
+      });
+    });
+  });
+
+  describe('formatServerMessageChunks', () => {
+    it('numbers and prefixes every chunk as a server message', () => {
+      const text = Array.from({ length: 3 }, (_, i) => `${i}`.repeat(60)).join('\n');
+      const chunks = formatServerMessageChunks(text, 100);
+
+      expect(chunks.length).toBe(3);
+      chunks.forEach((chunk, i) => {
+        expect(chunk.startsWith(`${SERVER_PREFIX}(${i + 1}/3)\n`)).toBe(true);
+        expect(chunk.length).toBeLessThanOrEqual(100);
+      });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCommand, registerCommand, getCommand, executeCommand, createReply } from '../src/commands.js';
+import { config } from '../src/config.js';
+import { createLogger } from '../src/logger.js';
+import { startTask, finishTask } from '../src/tasks.js';
+import { readHistoryPage } from '../src/history.js';
+import { recordUsage } from '../src/usage.js';
+import type { ChatHandle, Role } from '../src/types.js';
+
+describe('commands', () => {
+  describe('parseCommand', () => {
+    it('returns null for regular messages', () => {
+      expect(parseCommand('fix the bug')).toBeNull();
+      expect(parseCommand('!')).toBeNull();
+    });
+
+    it('parses name and arguments', () => {
+      expect(parseCommand('  !History 10  ')).toEqual({ name: 'history', args: ['10'], rawArgs: '10' });
+    });
+
+    it('treats bare stop/cancel as !stop', () => {
+      expect(parseCommand('Cancel')).toEqual({ name: 'stop', args: [], rawArgs: '' });
+      expect(parseCommand('please stop that')).toBeNull();
+    });
+
+    it('keeps raw arguments with inner whitespace', () => {
+      expect(parseCommand('!search foo   bar')).toEqual({
+        name: 'search',
+        args: ['foo', 'bar'],
+        rawArgs: 'foo   bar',
+      });
+    });
+  });
+
+  describe('registry', () => {
+    const chat: ChatHandle = {
+      id: 'group-1',
+      name: 'Claude: test',
+      isGroup: true,
+      sendMessage: async () => {},
+      sendTyping: async () => {},
+      clearTyping: async () => {},
+    };
+
+    function context(replies: string[], role: Role = 'owner', projectPath = '/nonexistent') {
+      return {
+        groupId: chat.id,
+        groupName: chat.name,
+        projectPath,
+        senderId: 'sender',
+        senderName: 'Sender',
+        role,
+        messageId: 'msg-1',
+        chat,
+        queue: { size: 0, pending: 0 },
+        clearQueue: () => [],
+        reply: async (text: string) => {
+          replies.push(text);
+        },
+        logger: createLogger({ groupId: chat.id, groupName: chat.name }),
+      };
+    }
+
+    it('registers built-ins', () => {
+      for (const name of ['new', 'status', 'history', 'help']) {
+        expect(getCommand(name)).toBeDefined();
+      }
+    });
+
+    it('runs custom commands by name or alias', async () => {
+      registerCommand({
+        name: 'echo',
+        aliases: ['say'],
+        description: 'Echo arguments',
+        handler: async (ctx) => ctx.reply(ctx.rawArgs),
+      });
+
+      const replies: string[] = [];
+      await executeCommand(parseCommand('!say hi there')!, context(replies));
+      expect(replies).toEqual(['hi there']);
+    });
+
+    it('replies with a hint for unknown commands', async () => {
+      const replies: string[] = [];
+      await executeCommand(parseCommand('!nope')!, context(replies));
+      expect(replies[0]).toContain('!help');
+    });
+
+    it('aborts the running task on !stop', async () => {
+      const controller = startTask(chat.id, 'refactor everything', 'Alice');
+      const replies: string[] = [];
+      await executeCommand(parseCommand('stop')!, context(replies));
+
+      expect(controller.signal.aborted).toBe(true);
+      expect(replies[0]).toContain('refactor everything');
+      finishTask(chat.id, controller);
+    });
+
+    it('lists commands in !help', async () => {
+      const replies: string[] = [];
+      await executeCommand(parseCommand('!help')!, context(replies));
+      expect(replies[0]).toContain('!history [N]');
+    });
+
+    it('hides commands above the role from !help', async () => {
+      const replies: string[] = [];
+      await executeCommand(parseCommand('!help')!, context(replies, 'readonly'));
+      expect(replies[0]).toContain('!status');
+      expect(replies[0]).not.toContain('!new');
+    });
+
+    it('refuses commands above the role and records the denial', async () => {
+      const projectPath = mkdtempSync(join(tmpdir(), 'whatsclaude-commands-'));
+      try {
+        const replies: string[] = [];
+        await executeCommand(parseCommand('!new')!, context(replies, 'readonly', projectPath));
+
+        expect(replies[0]).toContain('requires the contributor role');
+        const { messages: history } = await readHistoryPage(projectPath);
+        expect(history).toHaveLength(1);
+        expect(history[0].role).toBe('system');
+        expect(history[0].content).toContain('!new');
+      } finally {
+        rmSync(projectPath, { recursive: true, force: true });
+      }
+    });
+
+    it('reports usage per period and sender', async () => {
+      const root = mkdtempSync(join(tmpdir(), 'whatsclaude-commands-'));
+      const projectPath = join(root, 'webapp');
+      try {
+        recordUsage(projectPath, {
+          ts: new Date().toISOString(),
+          groupId: chat.id,
+          messageId: 'msg-1',
+          senderId: 'alice',
+          senderName: 'Alice',
+          kind: 'query',
+          inputTokens: 1200,
+          outputTokens: 300,
+          cacheReadTokens: 0,
+          cacheCreationTokens: 0,
+          costUsd: 0.25,
+          durationMs: 5000,
+          numTurns: 2,
+        });
+        const replies: string[] = [];
+        await executeCommand(parseCommand('!usage')!, context(replies, 'readonly', projectPath));
+
+        expect(replies[0]).toContain('Today: $0.25 · 1 query · 1.2k in / 300 out');
+        expect(replies[0]).toContain('• Alice: $0.25');
+      } finally {
+        rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createReply', () => {
+    it('splits long replies into several messages', async () => {
+      const sent: string[] = [];
+      const reply = createReply({
+        id: 'group-1',
+        name: 'Claude: test',
+        isGroup: true,
+        sendMessage: async (text) => {
+          sent.push(text);
+        },
+        sendTyping: async () => {},
+        clearTyping: async () => {},
+      });
+
+      await reply('short');
+      await reply(Array.from({ length: 50 }, (_, i) => `[2026-01-01 00:${i}] Alice: ${'x'.repeat(200)}`).join('\n'));
+
+      expect(sent[0]).toContain('short');
+      expect(sent.length).toBeGreaterThan(2);
+      expect(sent.slice(1).every((message) => message.length <= config.maxMessageLength)).toBe(true);
+    });
+  });
+});
@@ -1,6 +1,8 @@
-import { describe, it, expect } from 'vitest';
-import { expandHome } from '../src/config.js';
-import { homedir } from 'os';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { config, expandHome, readSettingsFile, resolveGroupSettings, validateGroupSettings } from '../src/config.js';
+import { homedir, tmpdir } from 'os';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
 
 describe('config', () => {
   describe('expandHome', () => {
@@ -24,4 +26,69 @@ describe('config', () => {
       expect(expandHome(path)).toBe(path);
     });
   });
+
+  describe('readSettingsFile', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'whatsclaude-config-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('returns undefined without errors when the file is missing', () => {
+      const errors: string[] = [];
+      expect(readSettingsFile(join(dir, 'missing.json'), validateGroupSettings, errors)).toBeUndefined();
+      expect(errors).toEqual([]);
+    });
+
+    it('returns valid settings', () => {
+      const path = join(dir, 'settings.json');
+      writeFileSync(path, JSON.stringify({ model: 'opus', maxQueueSize: 3 }));
+      const errors: string[] = [];
+      expect(readSettingsFile(path, validateGroupSettings, errors)).toEqual({ model: 'opus', maxQueueSize: 3 });
+      expect(errors).toEqual([]);
+    });
+
+    it('reports invalid JSON', () => {
+      const path = join(dir, 'settings.json');
+      writeFileSync(path, '{ nope');
+      const errors: string[] = [];
+      expect(readSettingsFile(path, validateGroupSettings, errors)).toBeUndefined();
+      expect(errors[0]).toContain('invalid JSON');
+    });
+
+    it('reports every invalid or unknown setting', () => {
+      const path = join(dir, 'settings.json');
+      writeFileSync(path, JSON.stringify({ maxQueueSize: 0, permissionMode: 'yolo', allowedTools: ['Read', 1], modle: 'x' }));
+      const errors: string[] = [];
+      expect(readSettingsFile(path, validateGroupSettings, errors)).toBeUndefined();
+      expect(errors).toEqual([
+        `${path}: maxQueueSize: expected an integer >= 1`,
+        `${path}: permissionMode: expected one of "default", "acceptEdits", "plan"`,
+        `${path}: allowedTools[1]: expected a string`,
+        `${path}: modle: unknown setting`,
+      ]);
+    });
+  });
+
+  describe('resolveGroupSettings', () => {
+    it('falls back to the global config', () => {
+      expect(resolveGroupSettings()).toEqual({
+        allowedTools: config.allowedTools,
+        model: config.model,
+        maxQueueSize: config.maxQueueSize,
+        permissionMode: config.permissionMode,
+      });
+    });
+
+    it('applies group overrides', () => {
+      const settings = resolveGroupSettings({ allowedTools: ['Read'], maxQueueSize: 5 });
+      expect(settings.allowedTools).toEqual(['Read']);
+      expect(settings.maxQueueSize).toBe(5);
+      expect(settings.permissionMode).toBe(config.permissionMode);
+    });
+  });
 });
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Sessions and history live under PROJECTS_ROOT, so point it at a temp dir before loading the modules
+const projectsRoot = mkdtempSync(join(tmpdir(), 'whatsclaude-dashboard-'));
+process.env.PROJECTS_ROOT = projectsRoot;
+
+let server: import('../src/http.js').HttpServer;
+let config: typeof import('../src/config.js').config;
+let sessions: typeof import('../src/sessions.js');
+let tasks: typeof import('../src/tasks.js');
+
+const get = (path: string) => fetch(`http://127.0.0.1:${server.port}${path}`);
+const post = (path: string, headers: Record<string, string> = { 'Content-Type': 'application/json' }) =>
+  fetch(`http://127.0.0.1:${server.port}${path}`, { method: 'POST', headers });
+
+beforeAll(async () => {
+  ({ config } = await import('../src/config.js'));
+  sessions = await import('../src/sessions.js');
+  tasks = await import('../src/tasks.js');
+  const { appendToHistory } = await import('../src/history.js');
+  const { startHttpServer } = await import('../src/http.js');
+  await import('../src/dashboard.js');
+
+  const projectPath = join(projectsRoot, 'webapp');
+  mkdirSync(projectPath);
+  sessions.registerGroup('webapp', 'g1');
+  sessions.setSession('g1', { sessionId: 's1', projectPath, groupName: 'Claude: webapp', lastActivity: new Date().toISOString(), turns: 3 });
+  for (let i = 0; i < 60; i++) {
+    appendToHistory(projectPath, {
+      id: `m${i}`,
+      ts: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+      groupId: 'g1',
+      groupName: 'Claude: webapp',
+      role: 'user',
+      sender: 'alice',
+      senderName: 'Alice',
+      content: `message ${i}`,
+    });
+  }
+
+  server = await startHttpServer({
+    host: '127.0.0.1',
+    port: 0,
+    disconnectedGraceMs: 0,
+    getConnection: () => ({ status: 'ready', since: new Date().toISOString() }),
+  });
+});
+
+afterAll(async () => {
+  await server.close();
+  rmSync(projectsRoot, { recursive: true, force: true });
+});
+
+describe('dashboard', () => {
+  it('serves the page', async () => {
+    const response = await get('/dashboard');
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('<title>WhatsClaude</title>');
+  });
+
+  it('lists groups with their session and running task', async () => {
+    const controller = tasks.startTask('g1', 'add a login page', 'Alice');
+    const { groups } = await (await get('/api/groups')).json();
+    tasks.finishTask('g1', controller);
+
+    expect(groups).toEqual([expect.objectContaining({
+      projectName: 'webapp',
+      groupId: 'g1',
+      groupName: 'Claude: webapp',
+      session: expect.objectContaining({ sessionId: 's1', name: 'main', turns: 3 }),
+      running: expect.objectContaining({ senderName: 'Alice', prompt: 'add a login page' }),
+      waiting: [],
+    })]);
+  });
+
+  it('pages through history, newest first', async () => {
+    const first = await (await get('/api/history?project=webapp')).json();
+    expect(first).toMatchObject({ page: 1, total: 60, hasMore: true });
+    expect(first.messages).toHaveLength(50);
+    expect(first.messages.at(-1).content).toBe('message 59');
+
+    const second = await (await get('/api/history?project=webapp&page=2')).json();
+    expect(second.hasMore).toBe(false);
+    expect(second.messages.map((m: { content: string }) => m.content)).toEqual(
+      Array.from({ length: 10 }, (_, i) => `message ${i}`)
+    );
+
+    expect((await get('/api/history?project=nope')).status).toBe(404);
+    expect((await get('/api/history?project=__proto__')).status).toBe(404);
+    expect((await post('/api/cancel?project=constructor')).status).toBe(404);
+  });
+
+  it('stops the running task and refuses unknown queued ones', async () => {
+    const controller = tasks.startTask('g1', 'refactor everything', 'Bob');
+    const response = await post('/api/cancel?project=webapp');
+    expect(response.status).toBe(200);
+    expect(controller.signal.aborted).toBe(true);
+    tasks.finishTask('g1', controller);
+
+    expect((await post('/api/cancel?project=webapp')).status).toBe(409);
+    expect((await post('/api/cancel?project=webapp&task=abcd1234')).status).toBe(409);
+  });
+
+  it('resets a session only for JSON requests', async () => {
+    expect((await post('/api/reset-session?project=webapp', {})).status).toBe(415);
+    expect(sessions.getSession('g1')?.sessionId).toBe('s1');
+
+    const response = await post('/api/reset-session?project=webapp');
+    expect(response.status).toBe(200);
+    expect(sessions.getSession('g1')).toBeUndefined();
+    expect(sessions.getArchivedSessions('g1')[0]).toMatchObject({ sessionId: 's1', reason: 'cleared from the dashboard' });
+  });
+
+  it('requires the token when one is set', async () => {
+    config.http.dashboardToken = 'secret';
+    try {
+      expect((await get('/api/groups')).status).toBe(401);
+      const withToken = (token: string) => fetch(`http://127.0.0.1:${server.port}/api/groups`, { headers: { Authorization: `Bearer ${token}` } });
+      expect((await withToken('secreT')).status).toBe(401);
+      expect((await withToken('secret-and-more')).status).toBe(401);
+      expect((await withToken('secret')).status).toBe(200);
+      expect((await get('/dashboard')).status).toBe(200);
+    } finally {
+      config.http.dashboardToken = undefined;
+    }
+  });
+
+  it('refuses the API without a token when bound to another address', async () => {
+    config.http.host = '0.0.0.0';
+    try {
+      expect((await get('/api/groups')).status).toBe(403);
+      expect((await post('/api/cancel?project=webapp')).status).toBe(403);
+    } finally {
+      config.http.host = '127.0.0.1';
+    }
+  });
+});
@@ -76,6 +76,6 @@ How many items are in the list above? Just respond with the number.`;
     // Note: sendMediaMessage now returns the response directly (media responses are synchronous)
     const serverResponse = await harness.sendMediaMessage();
     expect(serverResponse.startsWith(SERVER_PREFIX)).toBe(true);
-    expect(serverResponse).toContain("can't process media");
+    expect(serverResponse).toContain("can't process");
   }, 120000);
 });
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { appendToHistory } from '../src/history.js';
+import { escapeHtml, exportConversation, parseExportFormat, renderHtml, renderMarkdown } from '../src/export.js';
+import type { StoredMessage } from '../src/types.js';
+
+const messages: StoredMessage[] = [
+  {
+    id: 'm1',
+    ts: '2026-02-01T09:30:00.000Z',
+    groupId: 'g1',
+    groupName: 'Claude: webapp',
+    role: 'user',
+    sender: '1555@c.us',
+    senderName: 'Alice',
+    content: 'Add a <footer> please',
+    attachments: [{ kind: 'image', mimetype: 'image/png', filename: 'mockup.png', size: 10, path: '.whatsclaude/uploads/x.png' }],
+  },
+  {
+    id: 'response-m1',
+    ts: '2026-02-01T09:31:00.000Z',
+    groupId: 'g1',
+    groupName: 'Claude: webapp',
+    role: 'assistant',
+    sender: 'claude',
+    senderName: 'Claude',
+    content: 'Done - added `Footer.tsx`.',
+  },
+  {
+    id: 'm2',
+    ts: '2026-02-03T12:00:00.000Z',
+    groupId: 'g1',
+    groupName: 'Claude: webapp',
+    role: 'user',
+    sender: '4420@c.us',
+    senderName: 'Bob',
+    content: 'Thanks!',
+  },
+];
+
+describe('export', () => {
+  it('renders Markdown with day headings, senders and attachments', () => {
+    const markdown = renderMarkdown(messages, 'Claude: webapp');
+    expect(markdown).toContain('# Claude: webapp');
+    expect(markdown).toContain('3 message(s), 2026-02-01 – 2026-02-03');
+    expect(markdown).toContain('## 2026-02-03');
+    expect(markdown).toContain('### 💬 Alice · 09:30');
+    expect(markdown).toContain('### 🤖 Claude · 09:31');
+    expect(markdown).toContain('📎 mockup.png');
+  });
+
+  it('renders self-contained, escaped HTML', () => {
+    const html = renderHtml(messages, 'Claude: webapp');
+    expect(html).toContain('<div class="message assistant">');
+    expect(html).toContain('Add a &lt;footer&gt; please');
+    expect(html).not.toContain('<footer>');
+    expect(html).not.toMatch(/<link|<script|src="http/);
+  });
+
+  it('escapes HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+
+  it('parses format names', () => {
+    expect(parseExportFormat('MD')).toBe('markdown');
+    expect(parseExportFormat('html')).toBe('html');
+    expect(parseExportFormat('pdf')).toBeUndefined();
+  });
+
+  describe('exportConversation', () => {
+    let projectPath: string;
+
+    beforeEach(() => {
+      projectPath = mkdtempSync(join(tmpdir(), 'whatsclaude-export-'));
+      for (const message of messages) {
+        appendToHistory(projectPath, message);
+      }
+    });
+
+    afterEach(() => {
+      rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it('writes the date range into the exports folder', async () => {
+      const result = await exportConversation(projectPath, {
+        format: 'markdown',
+        since: new Date('2026-02-01'),
+        until: new Date('2026-02-02'),
+      });
+
+      expect(result.messageCount).toBe(2);
+      expect(result.path.startsWith(join(projectPath, 'exports'))).toBe(true);
+      expect(existsSync(result.path)).toBe(true);
+      expect(readFileSync(result.path, 'utf-8')).not.toContain('Thanks!');
+    });
+  });
+});
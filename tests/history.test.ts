@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../src/config.js';
+import {
+  appendToHistory,
+  getHistoryCount,
+  getHistoryPath,
+  getHistorySegments,
+  getSegmentsDir,
+  readHistoryPage,
+  rotateHistory,
+  streamHistory,
+} from '../src/history.js';
+import type { StoredMessage } from '../src/types.js';
+
+function message(n: number): StoredMessage {
+  return {
+    id: `m${n}`,
+    ts: new Date(Date.UTC(2026, 0, 1, 0, n)).toISOString(),
+    groupId: 'g1',
+    groupName: 'Claude: test',
+    role: 'user',
+    sender: 'alice',
+    senderName: 'Alice',
+    content: `message ${n}`,
+  };
+}
+
+async function readIds(projectPath: string, range?: { since?: Date; until?: Date }): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const m of streamHistory(projectPath, range)) {
+    ids.push(m.id);
+  }
+  return ids;
+}
+
+describe('history', () => {
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'whatsclaude-history-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  /** Append messages from..to, rotating after each `every` messages */
+  function fill(from: number, to: number, every = 0) {
+    for (let n = from; n <= to; n++) {
+      appendToHistory(projectPath, message(n));
+      if (every && n % every === 0) rotateHistory(projectPath);
+    }
+  }
+
+  describe('rotation', () => {
+    it('compresses the live file into a segment', async () => {
+      fill(1, 3);
+      const segment = rotateHistory(projectPath);
+
+      expect(segment).toMatchObject({ messages: 3, firstTs: message(1).ts, lastTs: message(3).ts });
+      expect(existsSync(getHistoryPath(projectPath))).toBe(false);
+      expect(readdirSync(getSegmentsDir(projectPath))).toContain(segment!.file);
+      expect(await readIds(projectPath)).toEqual(['m1', 'm2', 'm3']);
+    });
+
+    it('does nothing without messages', () => {
+      expect(rotateHistory(projectPath)).toBeUndefined();
+    });
+
+    it('rotates automatically once the file reaches the size limit', async () => {
+      const previous = config.historyMaxBytes;
+      config.historyMaxBytes = 500;
+      try {
+        fill(1, 10);
+      } finally {
+        config.historyMaxBytes = previous;
+      }
+
+      expect(getHistorySegments(projectPath).length).toBeGreaterThan(0);
+      expect(await getHistoryCount(projectPath)).toBe(10);
+    });
+
+    it('rebuilds a missing manifest from the segment files', () => {
+      fill(1, 4, 2);
+      rmSync(join(getSegmentsDir(projectPath), 'segments.json'));
+      expect(getHistorySegments(projectPath).map((s) => s.messages)).toEqual([2, 2]);
+    });
+  });
+
+  describe('reading', () => {
+    it('pages newest first across segments and the live file', async () => {
+      fill(1, 10, 4); // segments: 1-4, 5-8; live: 9-10
+
+      const first = await readHistoryPage(projectPath, { limit: 3 });
+      expect(first.messages.map((m) => m.id)).toEqual(['m8', 'm9', 'm10']);
+      expect(first).toMatchObject({ total: 10, hasMore: true });
+
+      const last = await readHistoryPage(projectPath, { offset: 9, limit: 3 });
+      expect(last.messages.map((m) => m.id)).toEqual(['m1']);
+      expect(last.hasMore).toBe(false);
+    });
+
+    it('pages oldest first', async () => {
+      fill(1, 10, 4);
+      const page = await readHistoryPage(projectPath, { offset: 3, limit: 3, newestFirst: false });
+      expect(page.messages.map((m) => m.id)).toEqual(['m4', 'm5', 'm6']);
+    });
+
+    it('pages without reading segments outside the page', async () => {
+      fill(1, 10, 4);
+      // A broken first segment doesn't matter to pages that don't reach it
+      writeFileSync(join(getSegmentsDir(projectPath), getHistorySegments(projectPath)[0].file), 'not gzip');
+
+      const page = await readHistoryPage(projectPath, { limit: 5 });
+      expect(page.messages.map((m) => m.id)).toEqual(['m6', 'm7', 'm8', 'm9', 'm10']);
+      expect(await getHistoryCount(projectPath)).toBe(10);
+    });
+
+    it('streams every message in order', async () => {
+      fill(1, 7, 3);
+      expect(await readIds(projectPath)).toEqual(['m1', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7']);
+    });
+
+    it('streams a date range', async () => {
+      fill(1, 7, 3);
+      const range = { since: new Date(message(3).ts), until: new Date(message(6).ts) };
+      expect(await readIds(projectPath, range)).toEqual(['m3', 'm4', 'm5']);
+    });
+
+    it('keeps the rest of the history when the last line is truncated', async () => {
+      fill(1, 2);
+      appendFileSync(getHistoryPath(projectPath), '{"id":"m3","ts":"2026-');
+
+      expect(await readIds(projectPath)).toEqual(['m1', 'm2']);
+      expect(await getHistoryCount(projectPath)).toBe(2);
+
+      // The next append starts on a fresh line instead of extending the broken one
+      appendToHistory(projectPath, message(4));
+      expect(await readIds(projectPath)).toEqual(['m1', 'm2', 'm4']);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { request } from 'http';
+import { checkHealth, isAllowedHost, registerRoute, startHttpServer, type HttpServer } from '../src/http.js';
+import type { ConnectionState } from '../src/types.js';
+
+describe('http', () => {
+  const minute = 60 * 1000;
+  const now = Date.parse('2026-01-01T12:00:00.000Z');
+  const state = (status: ConnectionState['status'], minutesAgo = 0): ConnectionState => ({
+    status,
+    since: new Date(now - minutesAgo * minute).toISOString(),
+  });
+
+  describe('checkHealth', () => {
+    it('is healthy and ready while connected', () => {
+      expect(checkHealth(state('ready'), 5 * minute, now)).toEqual({ healthy: true, ready: true });
+    });
+
+    it('stays healthy but not ready while starting or briefly disconnected', () => {
+      expect(checkHealth(state('qr'), 5 * minute, now)).toMatchObject({ healthy: true, ready: false });
+      expect(checkHealth(state('disconnected', 2), 5 * minute, now)).toMatchObject({ healthy: true, ready: false });
+    });
+
+    it('is unhealthy after a rejected login or a long disconnection', () => {
+      expect(checkHealth(state('auth_failure'), 5 * minute, now)).toMatchObject({ healthy: false });
+      expect(checkHealth(state('disconnected', 10), 5 * minute, now).reason).toContain('disconnected since');
+    });
+
+    it('is unhealthy while logged out or while reconnecting keeps failing', () => {
+      const reconnect = { attempts: 0, circuit: 'closed' as const, loggedOut: true };
+      expect(checkHealth({ ...state('qr'), reconnect }, 5 * minute, now)).toMatchObject({ healthy: false, reason: expect.stringContaining('logged out') });
+      expect(checkHealth({ ...state('disconnected'), reconnect: { ...reconnect, loggedOut: false, attempts: 10, circuit: 'open' } }, 5 * minute, now))
+        .toMatchObject({ healthy: false, reason: expect.stringContaining('failed 10 times') });
+    });
+  });
+
+  describe('server', () => {
+    let server: HttpServer;
+    let connection: ConnectionState = { status: 'ready', since: new Date().toISOString() };
+    const get = (path: string, init?: RequestInit) => fetch(`http://127.0.0.1:${server.port}${path}`, init);
+
+    beforeAll(async () => {
+      server = await startHttpServer({
+        host: '127.0.0.1',
+        port: 0,
+        disconnectedGraceMs: 0,
+        getConnection: () => connection,
+      });
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    it('reports health and readiness from the connection state', async () => {
+      expect((await get('/healthz')).status).toBe(200);
+      expect((await get('/readyz')).status).toBe(200);
+
+      connection = { status: 'disconnected', since: new Date(Date.now() - 1000).toISOString(), detail: 'NAVIGATION' };
+      const health = await get('/healthz');
+      expect(health.status).toBe(503);
+      expect(await health.json()).toMatchObject({ status: 'unhealthy', connection: { detail: 'NAVIGATION' } });
+      expect((await get('/readyz')).status).toBe(503);
+    });
+
+    it('serves queue and session status', async () => {
+      const body = await (await get('/status')).json();
+      expect(body).toHaveProperty('queues');
+      expect(body).toHaveProperty('sessions');
+      expect(body.uptimeSeconds).toBeGreaterThanOrEqual(0);
+    });
+
+    it('exposes Prometheus metrics', async () => {
+      const response = await get('/metrics');
+      expect(response.headers.get('content-type')).toContain('version=0.0.4');
+      expect(await response.text()).toContain('# TYPE whatsclaude_messages_received_total counter');
+    });
+
+    it('answers unknown paths and methods', async () => {
+      expect((await get('/nope')).status).toBe(404);
+      expect((await get('/status', { method: 'POST' })).status).toBe(405);
+    });
+
+    it('runs registered routes and reports their errors', async () => {
+      registerRoute({ path: '/boom', handler: () => { throw new Error('kaput'); } });
+      const response = await get('/boom');
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'kaput' });
+    });
+
+    it('refuses requests addressed to other host names', async () => {
+      // fetch() won't let the Host header be overridden
+      const statusFor = (host: string) => new Promise<number>((resolve, reject) => {
+        request({ host: '127.0.0.1', port: server.port, path: '/status', headers: { Host: host } }, (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        }).on('error', reject).end();
+      });
+
+      expect(await statusFor(`localhost:${server.port}`)).toBe(200);
+      expect(await statusFor(`attacker.example:${server.port}`)).toBe(421);
+    });
+  });
+
+  describe('isAllowedHost', () => {
+    it('matches host names with or without a port', () => {
+      const allowed = ['127.0.0.1', '::1', 'localhost', 'bridge.lan'];
+      expect(isAllowedHost('localhost:8787', allowed)).toBe(true);
+      expect(isAllowedHost('[::1]:8787', allowed)).toBe(true);
+      expect(isAllowedHost('Bridge.LAN', allowed)).toBe(true);
+      expect(isAllowedHost('rebind.example:8787', allowed)).toBe(false);
+      expect(isAllowedHost(undefined, allowed)).toBe(false);
+    });
+  });
+});
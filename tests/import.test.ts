@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { appendToHistory, getHistorySegments, readHistoryPage } from '../src/history.js';
+import { formatTranscript } from '../src/export.js';
+import { importChatExport, parseWhatsAppExport, toStoredMessages } from '../src/import.js';
+
+const android = [
+  '31/12/2025, 21:41 - Messages and calls are end-to-end encrypted.',
+  '31/12/2025, 21:41 - Alice: Should we move the API to Postgres?',
+  '31/12/2025, 21:45 - +1 555 123 4567: Yes, and keep',
+  'the SQLite file for tests',
+  '01/01/2026, 09:00 - Bob joined using this group\'s invite link',
+  '01/01/2026, 09:02 - Bob: 🤖🤖🤖: Done - migrated the schema.',
+].join('\n');
+
+const ios = [
+  '[12/31/25, 9:41:05 PM] Alice: Happy new year',
+  '[1/1/26, 12:02:00 AM] ‎Bob: Thanks!',
+].join('\r\n');
+
+describe('import', () => {
+  it('parses Android exports with continuation lines and skips notices', () => {
+    const messages = parseWhatsAppExport(android);
+    expect(messages).toHaveLength(3);
+    expect(messages[0].date).toEqual(new Date(2025, 11, 31, 21, 41));
+    expect(messages[1].senderName).toBe('+1 555 123 4567');
+    expect(messages[1].content).toBe('Yes, and keep\nthe SQLite file for tests');
+  });
+
+  it('parses iOS exports with 12-hour times', () => {
+    const messages = parseWhatsAppExport(ios);
+    expect(messages.map((m) => m.date)).toEqual([new Date(2025, 11, 31, 21, 41, 5), new Date(2026, 0, 1, 0, 2)]);
+    expect(messages[1].senderName).toBe('Bob');
+  });
+
+  it('detects the date order and honours an explicit one', () => {
+    expect(parseWhatsAppExport('2026-01-02, 10:00 - Alice: iso')[0].date).toEqual(new Date(2026, 0, 2, 10));
+    expect(parseWhatsAppExport('02.01.26, 10:00 - Alice: dotted')[0].date).toEqual(new Date(2026, 0, 2, 10));
+    expect(parseWhatsAppExport('02/01/26, 10:00 - Alice: hi', 'mdy')[0].date).toEqual(new Date(2026, 1, 1, 10));
+  });
+
+  it('maps senders and bot messages', () => {
+    const stored = toStoredMessages(parseWhatsAppExport(android), 'g1', 'Claude: webapp');
+    expect(stored.map((m) => [m.role, m.sender, m.senderName])).toEqual([
+      ['user', 'import:Alice', 'Alice'],
+      ['user', '15551234567@c.us', '+1 555 123 4567'],
+      ['assistant', 'claude', 'Claude'],
+    ]);
+    expect(stored[2].content).toBe('Done - migrated the schema.');
+    expect(stored[0].id).toMatch(/^import-[0-9a-f]{16}$/);
+  });
+
+  it('keeps the most recent messages within the transcript limit', () => {
+    const stored = toStoredMessages(parseWhatsAppExport(android), 'g1', 'Claude: webapp');
+    const transcript = formatTranscript(stored, 80);
+    expect(transcript).toContain('Claude: Done - migrated the schema.');
+    expect(transcript).not.toContain('Alice');
+  });
+
+  describe('importChatExport', () => {
+    let projectPath: string;
+    const options = { groupId: 'g1', groupName: 'Claude: webapp' };
+
+    beforeEach(() => {
+      projectPath = mkdtempSync(join(tmpdir(), 'whatsclaude-import-'));
+    });
+
+    afterEach(() => {
+      rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it('imports only messages older than the history, as a segment', async () => {
+      appendToHistory(projectPath, {
+        id: 'live-1',
+        ts: new Date(2026, 0, 1, 9, 1).toISOString(),
+        groupId: 'g1',
+        groupName: 'Claude: webapp',
+        role: 'user',
+        sender: 'bob',
+        senderName: 'Bob',
+        content: 'first bridged message',
+      });
+
+      const result = await importChatExport(projectPath, android, options);
+      expect(result.imported).toHaveLength(2);
+      expect(result.overlapping).toBe(1);
+      expect(getHistorySegments(projectPath)).toHaveLength(1);
+      const { messages } = await readHistoryPage(projectPath, { newestFirst: false, limit: 10 });
+      expect(messages.map((m) => m.content)).toEqual([
+        'Should we move the API to Postgres?',
+        'Yes, and keep\nthe SQLite file for tests',
+        'first bridged message',
+      ]);
+    });
+
+    it('skips messages already imported', async () => {
+      await importChatExport(projectPath, android, options);
+      const again = await importChatExport(projectPath, android, options);
+      expect(again.imported).toHaveLength(0);
+      expect(again.duplicates).toBe(3);
+      expect((await readHistoryPage(projectPath)).total).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterAll, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../src/config.js';
+import { createLogger, formatJsonLine, newCorrelationId } from '../src/logger.js';
+
+const logDir = mkdtempSync(join(tmpdir(), 'whatsclaude-logger-'));
+const defaults = { ...config.logging };
+
+afterEach(() => {
+  config.logging = { ...defaults };
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(logDir, { recursive: true, force: true });
+});
+
+describe('logger', () => {
+  it('formats JSON lines with context fields and error stacks', () => {
+    const error = new Error('boom');
+    const line = JSON.parse(formatJsonLine(
+      'error',
+      { groupId: 'g1', sessionId: undefined, correlationId: 'abcd1234' },
+      ['Query %s failed:', 'q1', error],
+      new Date('2026-01-01T00:00:00.000Z')
+    ));
+
+    expect(line).toMatchObject({
+      ts: '2026-01-01T00:00:00.000Z',
+      level: 'error',
+      msg: 'Query q1 failed: boom',
+      groupId: 'g1',
+      correlationId: 'abcd1234',
+    });
+    expect(line).not.toHaveProperty('sessionId');
+    expect(line.stack).toContain('Error: boom');
+  });
+
+  it('tags text lines with the group and correlation ID, and children add fields', () => {
+    const info = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const logger = createLogger({ groupName: 'Claude: webapp', correlationId: newCorrelationId() });
+    const child = logger.child({ sessionId: 's1' });
+
+    child.info('Claude responded');
+
+    expect(child.fields).toMatchObject({ groupName: 'Claude: webapp', sessionId: 's1' });
+    expect(logger.fields).not.toHaveProperty('sessionId');
+    expect(info.mock.calls[0][0]).toMatch(/^\[INFO\] \[Claude: webapp\] \[[0-9a-f]{8}\]$/);
+    expect(info.mock.calls[0][1]).toBe('Claude responded');
+  });
+
+  it('tags connection lines with the transport', () => {
+    const info = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    createLogger({ transport: 'whatsapp' }).info('Reconnecting in 2s');
+
+    expect(info.mock.calls[0][0]).toBe('[INFO] [whatsapp]');
+  });
+
+  it('writes JSON lines to the console when configured', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    config.logging.format = 'json';
+
+    createLogger({ groupId: 'g1' }).warn('Queue full (1)');
+
+    expect(JSON.parse(warn.mock.calls[0][0])).toMatchObject({ level: 'warn', msg: 'Queue full (1)', groupId: 'g1' });
+  });
+
+  it('rotates the log file by size', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const file = join(logDir, 'logs', 'whatsclaude.log');
+    config.logging = { format: 'text', file, maxBytes: 300, maxFiles: 2 };
+
+    const logger = createLogger({ correlationId: 'abcd1234' });
+    for (let i = 0; i < 12; i++) {
+      logger.info(`message ${i}`);
+    }
+
+    expect(existsSync(`${file}.1`)).toBe(true);
+    expect(existsSync(`${file}.2`)).toBe(true);
+    expect(existsSync(`${file}.3`)).toBe(false);
+    const lines = readFileSync(file, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.at(-1)).toMatchObject({ msg: 'message 11', correlationId: 'abcd1234' });
+    expect(readFileSync(file, 'utf-8').length).toBeLessThanOrEqual(300);
+  });
+});
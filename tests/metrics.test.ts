@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createCounter, createGauge, createHistogram, renderMetrics } from '../src/metrics.js';
+
+describe('metrics', () => {
+  it('counts per label set', () => {
+    const counter = createCounter('test_rejected_total', 'Rejected messages');
+    counter.inc({ reason: 'queue_full' });
+    counter.inc({ reason: 'queue_full' });
+    counter.inc({ reason: 'media' }, 3);
+
+    expect(counter.get({ reason: 'queue_full' })).toBe(2);
+    const text = renderMetrics();
+    expect(text).toContain('# HELP test_rejected_total Rejected messages\n# TYPE test_rejected_total counter');
+    expect(text).toContain('test_rejected_total{reason="queue_full"} 2');
+    expect(text).toContain('test_rejected_total{reason="media"} 3');
+  });
+
+  it('renders histograms with cumulative buckets', () => {
+    const histogram = createHistogram('test_duration_seconds', 'Durations', [1, 10]);
+    histogram.observe({ outcome: 'success' }, 0.5);
+    histogram.observe({ outcome: 'success' }, 5);
+    histogram.observe({ outcome: 'success' }, 50);
+
+    const text = renderMetrics();
+    expect(text).toContain('test_duration_seconds_bucket{le="1",outcome="success"} 1');
+    expect(text).toContain('test_duration_seconds_bucket{le="10",outcome="success"} 2');
+    expect(text).toContain('test_duration_seconds_bucket{le="+Inf",outcome="success"} 3');
+    expect(text).toContain('test_duration_seconds_sum{outcome="success"} 55.5');
+    expect(text).toContain('test_duration_seconds_count{outcome="success"} 3');
+  });
+
+  it('collects gauges at render time and escapes label values', () => {
+    let depth = 1;
+    createGauge('test_queue_depth', 'Queue depth', () => [[{ group: 'Claude: "a"\\b' }, depth]]);
+    depth = 4;
+    expect(renderMetrics()).toContain('test_queue_depth{group="Claude: \\"a\\"\\\\b"} 4');
+  });
+
+  it('refuses duplicate metric names', () => {
+    expect(() => createCounter('test_rejected_total', 'again')).toThrow(/already registered/);
+  });
+});
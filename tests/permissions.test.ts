@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  findMatchingRule,
+  getGatedTools,
+  parseApprovalReply,
+  requestApproval,
+  resolveApproval,
+  hasPendingApproval,
+  restrictTools,
+} from '../src/permissions.js';
+
+describe('permissions', () => {
+  describe('findMatchingRule', () => {
+    it('matches risky bash commands', () => {
+      expect(findMatchingRule('Bash', { command: 'rm -rf build' })?.description).toBe('delete files');
+      expect(findMatchingRule('Bash', { command: 'git push origin main' })?.description).toBe('push to a git remote');
+    });
+
+    it('ignores safe bash commands', () => {
+      expect(findMatchingRule('Bash', { command: 'npm test' })).toBeUndefined();
+      expect(findMatchingRule('Bash', { command: 'git status' })).toBeUndefined();
+    });
+
+    it('matches every use of a tool without a pattern', () => {
+      expect(findMatchingRule('WebFetch', { url: 'https://example.com' })).toBeDefined();
+    });
+
+    it('lists gated tools once', () => {
+      expect(getGatedTools()).toEqual(['Bash', 'WebFetch']);
+    });
+  });
+
+  describe('parseApprovalReply', () => {
+    it('recognizes approve and deny words', () => {
+      expect(parseApprovalReply('Yes!')).toBe(true);
+      expect(parseApprovalReply(' no ')).toBe(false);
+      expect(parseApprovalReply('yes but only in src/')).toBeNull();
+    });
+  });
+
+  describe('requestApproval', () => {
+    let sent: string[];
+    const send = async (text: string) => {
+      sent.push(text);
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      sent = [];
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('resolves with the group reply', async () => {
+      const promise = requestApproval('g1', 'delete files', send, new AbortController().signal, 1000);
+      expect(hasPendingApproval('g1')).toBe(true);
+      expect(resolveApproval('g1', 'what?', 'Bob')).toBe(false);
+      expect(resolveApproval('g1', 'yes', 'Bob')).toBe(true);
+
+      await expect(promise).resolves.toBe(true);
+      expect(hasPendingApproval('g1')).toBe(false);
+      expect(sent[0]).toContain('delete files');
+      expect(sent[1]).toContain('Approved by Bob');
+    });
+
+    it('denies on timeout', async () => {
+      const promise = requestApproval('g2', 'delete files', send, new AbortController().signal, 1000);
+      vi.advanceTimersByTime(1000);
+      await expect(promise).resolves.toBe(false);
+      expect(hasPendingApproval('g2')).toBe(false);
+    });
+
+    it('denies when the task is aborted', async () => {
+      const controller = new AbortController();
+      const promise = requestApproval('g3', 'delete files', send, controller.signal, 1000);
+      controller.abort();
+      await expect(promise).resolves.toBe(false);
+    });
+
+    it('ignores replies when nothing is pending', () => {
+      expect(resolveApproval('g4', 'yes', 'Bob')).toBe(false);
+    });
+  });
+
+  describe('restrictTools', () => {
+    const options = { signal: new AbortController().signal, suggestions: [] };
+
+    it('denies tools outside the permitted set and passes the rest on', async () => {
+      const inner = vi.fn().mockResolvedValue({ behavior: 'deny', message: 'not approved' });
+      const canUseTool = restrictTools(['Read', 'Bash'], '/projects/app', inner);
+
+      await expect(canUseTool('MultiEdit', { file_path: 'a.ts' }, options)).resolves.toMatchObject({ behavior: 'deny' });
+      expect(inner).not.toHaveBeenCalled();
+      await expect(canUseTool('Bash', { command: 'rm -rf build' }, options)).resolves.toEqual({ behavior: 'deny', message: 'not approved' });
+    });
+
+    it('allows permitted tools without an approval callback', async () => {
+      await expect(restrictTools(['Read'], '/projects/app')('Read', { file_path: 'a.ts' }, options)).resolves.toMatchObject({ behavior: 'allow' });
+    });
+
+    it('only allows file edits inside the project', async () => {
+      const canUseTool = restrictTools(['Write', 'Edit'], '/projects/app');
+
+      await expect(canUseTool('Write', { file_path: '/projects/app/src/a.ts' }, options)).resolves.toMatchObject({ behavior: 'allow' });
+      await expect(canUseTool('Edit', { file_path: 'src/a.ts' }, options)).resolves.toMatchObject({ behavior: 'allow' });
+      await expect(canUseTool('Write', { file_path: '/projects/.whatsclaude-groups/app.json' }, options)).resolves.toMatchObject({ behavior: 'deny' });
+      await expect(canUseTool('Edit', { file_path: '../.whatsclaude-sessions.json' }, options)).resolves.toMatchObject({ behavior: 'deny' });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describeToolUse, createProgressReporter } from '../src/progress.js';
+
+describe('progress', () => {
+  describe('describeToolUse', () => {
+    it('describes file edits relative to the project', () => {
+      expect(describeToolUse('Edit', { file_path: '/p/app/src/app.ts' }, '/p/app')).toBe('Editing src/app.ts…');
+    });
+
+    it('keeps paths outside the project absolute', () => {
+      expect(describeToolUse('Read', { file_path: '/etc/hosts' }, '/p/app')).toBe('Reading /etc/hosts…');
+    });
+
+    it('describes bash commands', () => {
+      expect(describeToolUse('Bash', { command: 'npm test' })).toBe('Running `npm test`…');
+    });
+
+    it('falls back to the tool name', () => {
+      expect(describeToolUse('TodoWrite', {})).toBe('Using TodoWrite…');
+    });
+  });
+
+  describe('createProgressReporter', () => {
+    let sent: string[];
+    const send = async (text: string) => {
+      sent.push(text);
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      sent = [];
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('sends nothing before the threshold', () => {
+      const reporter = createProgressReporter({ send, thresholdMs: 1000, intervalMs: 500 });
+      reporter.report('Bash', { command: 'ls' });
+      vi.advanceTimersByTime(999);
+      expect(sent).toEqual([]);
+      reporter.stop();
+    });
+
+    it('sends the latest tool use once the threshold passes', () => {
+      const reporter = createProgressReporter({ send, thresholdMs: 1000, intervalMs: 500 });
+      reporter.report('Bash', { command: 'ls' });
+      reporter.report('Bash', { command: 'npm test' });
+      vi.advanceTimersByTime(1000);
+      expect(sent).toEqual(['Running `npm test`…']);
+      reporter.stop();
+    });
+
+    it('throttles updates to one per interval', () => {
+      const reporter = createProgressReporter({ send, thresholdMs: 0, intervalMs: 500 });
+      reporter.report('Read', { file_path: 'a.ts' });
+      vi.advanceTimersByTime(0);
+      reporter.report('Read', { file_path: 'b.ts' });
+      reporter.report('Read', { file_path: 'c.ts' });
+      vi.advanceTimersByTime(499);
+      expect(sent).toEqual(['Reading a.ts…']);
+      vi.advanceTimersByTime(1);
+      expect(sent).toEqual(['Reading a.ts…', 'Reading c.ts…']);
+      reporter.stop();
+    });
+
+    it('drops pending updates when stopped', () => {
+      const reporter = createProgressReporter({ send, thresholdMs: 1000, intervalMs: 500 });
+      reporter.report('Bash', { command: 'ls' });
+      reporter.stop();
+      vi.advanceTimersByTime(2000);
+      expect(sent).toEqual([]);
+    });
+  });
+});
@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync, existsSync, readFileSync } from 'fs';
+import { mkdtempSync, rmSync, existsSync, readFileSync, mkdirSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { sanitizeProjectName } from '../src/projects.js';
+import { getGroupSettings, getGroupSettingsPath, sanitizeProjectName } from '../src/projects.js';
 
 describe('projects', () => {
   describe('sanitizeProjectName', () => {
@@ -38,4 +38,33 @@ describe('projects', () => {
       expect(sanitizeProjectName('Claude:')).toBe('');
     });
   });
+
+  describe('getGroupSettings', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'whatsclaude-projects-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('reads settings from outside the project directory', () => {
+      const projectPath = join(root, 'webapp');
+      expect(getGroupSettingsPath(projectPath)).toBe(join(root, '.whatsclaude-groups', 'webapp.json'));
+
+      mkdirSync(join(root, '.whatsclaude-groups'));
+      writeFileSync(getGroupSettingsPath(projectPath), JSON.stringify({ permissionMode: 'plan' }));
+      expect(getGroupSettings(projectPath).permissionMode).toBe('plan');
+    });
+
+    it('ignores a settings file inside the project', () => {
+      const projectPath = join(root, 'webapp');
+      mkdirSync(join(projectPath, '.whatsclaude'), { recursive: true });
+      writeFileSync(join(projectPath, '.whatsclaude', 'settings.json'), JSON.stringify({ permissionMode: 'bypassPermissions' }));
+
+      expect(getGroupSettings(projectPath).permissionMode).toBe('acceptEdits');
+    });
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Sessions are persisted under PROJECTS_ROOT, so point it at a temp dir before loading the modules
+const projectsRoot = mkdtempSync(join(tmpdir(), 'whatsclaude-rollover-'));
+process.env.PROJECTS_ROOT = projectsRoot;
+
+const runTextQuery = vi.fn();
+vi.mock('../src/claude.js', () => ({ runTextQuery }));
+
+let rollover: typeof import('../src/rollover.js');
+let sessions: typeof import('../src/sessions.js');
+let history: typeof import('../src/history.js');
+
+beforeAll(async () => {
+  rollover = await import('../src/rollover.js');
+  sessions = await import('../src/sessions.js');
+  history = await import('../src/history.js');
+});
+
+afterAll(() => {
+  rmSync(projectsRoot, { recursive: true, force: true });
+});
+
+describe('rollover', () => {
+  const limits = { maxTurns: 10, maxContextChars: 1000 };
+  const base = { sessionId: 's1', projectPath: '/p', groupName: 'Claude: test', lastActivity: '2026-01-01T00:00:00.000Z' };
+
+  it('rolls over past either threshold', () => {
+    expect(rollover.getRolloverReason({ ...base, turns: 9, contextChars: 999 }, limits)).toBeUndefined();
+    expect(rollover.getRolloverReason({ ...base, turns: 10 }, limits)).toBe('10 turns');
+    expect(rollover.getRolloverReason({ ...base, contextChars: 1500 }, limits)).toBe('2k characters');
+    expect(rollover.getRolloverReason({ ...base, turns: 500 }, { maxTurns: 0, maxContextChars: 0 })).toBeUndefined();
+  });
+
+  it('seeds the new session with the summary and CLAUDE.md', () => {
+    const projectPath = join(projectsRoot, 'seed');
+    mkdirSync(projectPath);
+    expect(rollover.readProjectInstructions(projectPath)).toBeUndefined();
+    writeFileSync(join(projectPath, 'CLAUDE.md'), '# Rules\nUse pnpm.\n');
+
+    const prompt = rollover.buildSeedPrompt('We picked Postgres.', rollover.readProjectInstructions(projectPath));
+    expect(prompt).toContain('We picked Postgres.');
+    expect(prompt).toContain('Project instructions (CLAUDE.md):\n\n# Rules\nUse pnpm.');
+  });
+
+  describe('rolloverIfNeeded', () => {
+    const projectPath = join(projectsRoot, 'webapp');
+    const params = { groupId: 'g1', groupName: 'Claude: webapp', projectPath };
+
+    beforeAll(() => {
+      mkdirSync(projectPath);
+    });
+
+    it('leaves small sessions alone', async () => {
+      sessions.setSession('g1', { ...base, projectPath, turns: 1 });
+      expect(await rollover.rolloverIfNeeded(params)).toBeUndefined();
+      expect(runTextQuery).not.toHaveBeenCalled();
+    });
+
+    it('archives the session and continues in a seeded one with its lineage', async () => {
+      sessions.setSession('g1', { ...base, projectPath, turns: 1000, lineage: ['s0'] });
+      runTextQuery
+        .mockResolvedValueOnce({ sessionId: 'fork', result: 'We picked Postgres.' })
+        .mockResolvedValueOnce({ sessionId: 's2', result: 'OK' });
+
+      const result = await rollover.rolloverIfNeeded(params);
+
+      expect(runTextQuery.mock.calls[0][1]).toMatchObject({ resume: 's1', forkSession: true });
+      expect(runTextQuery.mock.calls[1][0]).toContain('We picked Postgres.');
+      expect(result?.session).toMatchObject({ sessionId: 's2', turns: 0, lineage: ['s0', 's1'] });
+      expect(sessions.getSession('g1')?.sessionId).toBe('s2');
+      expect(sessions.getArchivedSessions('g1')[0].sessionId).toBe('s1');
+      expect((await history.readHistoryPage(projectPath, { limit: 1 })).messages[0]?.content).toContain('Summary carried over');
+    });
+
+    it('keeps the session when summarizing fails', async () => {
+      sessions.setSession('g1', { ...base, projectPath, sessionId: 's3', turns: 1000 });
+      runTextQuery.mockReset();
+      runTextQuery.mockRejectedValue(new Error('overloaded'));
+
+      expect(await rollover.rolloverIfNeeded(params)).toBeUndefined();
+      expect(sessions.getSession('g1')?.sessionId).toBe('s3');
+    });
+  });
+});
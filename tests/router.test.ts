@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ChatHandle, InboundMessage, Role } from '../src/types.js';
+
+// Projects, sessions and group settings live under PROJECTS_ROOT, so point it at a temp dir before loading the modules
+const projectsRoot = mkdtempSync(join(tmpdir(), 'whatsclaude-router-'));
+process.env.PROJECTS_ROOT = projectsRoot;
+// A short batch window, so batches flush quickly
+process.env.BATCH_WINDOW_SECONDS = '0.05';
+
+const handleClaudeQuery = vi.fn();
+vi.mock('../src/claude.js', () => ({ handleClaudeQuery }));
+
+let router: typeof import('../src/router.js');
+let history: typeof import('../src/history.js');
+let transcription: typeof import('../src/transcription.js');
+let config: typeof import('../src/config.js').config;
+let BOT_PREFIX: string;
+let SERVER_PREFIX: string;
+
+beforeAll(async () => {
+  router = await import('../src/router.js');
+  history = await import('../src/history.js');
+  transcription = await import('../src/transcription.js');
+  ({ config, BOT_PREFIX, SERVER_PREFIX } = await import('../src/config.js'));
+});
+
+afterAll(() => {
+  rmSync(projectsRoot, { recursive: true, force: true });
+});
+
+/**
+ * A fake group chat that records what the bridge sends
+ */
+function fakeChat(project: string, overrides: Partial<ChatHandle> = {}): ChatHandle & { sent: string[] } {
+  const sent: string[] = [];
+  return {
+    id: `${project}@g.us`,
+    name: `Claude: ${project}`,
+    isGroup: true,
+    sendMessage: async (text) => {
+      sent.push(text);
+    },
+    sendTyping: async () => {},
+    clearTyping: async () => {},
+    ...overrides,
+    sent,
+  };
+}
+
+let nextId = 0;
+
+function fakeMessage(body: string, overrides: Partial<InboundMessage> & { sender?: string } = {}): InboundMessage {
+  const { sender = 'alice@c.us', ...rest } = overrides;
+  return {
+    id: `msg-${++nextId}`,
+    body,
+    hasMedia: false,
+    fromMe: false,
+    getSender: async () => ({ id: sender, name: sender.split('@')[0] }),
+    downloadMedia: async () => null,
+    ...rest,
+  };
+}
+
+/**
+ * Write a project's group settings
+ */
+function writeGroupSettings(project: string, settings: Record<string, unknown>) {
+  mkdirSync(join(projectsRoot, '.whatsclaude-groups'), { recursive: true });
+  writeFileSync(join(projectsRoot, '.whatsclaude-groups', `${project}.json`), JSON.stringify(settings));
+}
+
+/**
+ * Restrict a project's group to these members
+ */
+function setMembers(project: string, members: Record<string, Role>) {
+  writeGroupSettings(project, { members });
+}
+
+describe('router', () => {
+  beforeEach(() => {
+    handleClaudeQuery.mockReset();
+    handleClaudeQuery.mockResolvedValue('Done.');
+  });
+
+  it('ignores chats without the group prefix', async () => {
+    const chat = fakeChat('ignored', { name: 'Family' });
+    await router.routeMessage(fakeMessage('hello'), chat);
+
+    expect(chat.sent).toEqual([]);
+    expect(router.getQueueStatus()[chat.id]).toBeUndefined();
+  });
+
+  it('queues a message for Claude and sends the reply', async () => {
+    const chat = fakeChat('replies');
+    await router.routeMessage(fakeMessage('add a login page'), chat);
+
+    await vi.waitFor(() => expect(chat.sent).toEqual([`${BOT_PREFIX}Done.`]));
+    expect(handleClaudeQuery).toHaveBeenCalledTimes(1);
+    expect(handleClaudeQuery.mock.calls[0][0]).toMatchObject({ message: 'add a login page', senderName: 'alice' });
+  });
+
+  it('batches rapid-fire messages into one query', async () => {
+    const chat = fakeChat('batching');
+    await router.routeMessage(fakeMessage('add a login page'), chat);
+    await router.routeMessage(fakeMessage('with a password field', { sender: 'bob@c.us' }), chat);
+
+    await vi.waitFor(() => expect(chat.sent).toEqual([`${BOT_PREFIX}Done.`]));
+    expect(handleClaudeQuery).toHaveBeenCalledTimes(1);
+    const [options] = handleClaudeQuery.mock.calls[0];
+    expect(options.message).toBe('alice: add a login page\n\nbob: with a password field');
+    expect(options).toMatchObject({ senderName: 'alice, bob', role: 'owner' });
+    expect(options.messageIds).toHaveLength(2);
+  });
+
+  it('reports a failed query to the group', async () => {
+    handleClaudeQuery.mockRejectedValue(new Error('SDK exploded'));
+    const chat = fakeChat('failing');
+    await router.routeMessage(fakeMessage('do something'), chat);
+
+    await vi.waitFor(() => expect(chat.sent).toEqual([`${SERVER_PREFIX}❌ Error: SDK exploded`]));
+  });
+
+  it('reports a task that fails before the query starts', async () => {
+    const chat = fakeChat('typing', { sendTyping: async () => { throw new Error('chat is gone'); } });
+    await router.routeMessage(fakeMessage('do something'), chat);
+
+    await vi.waitFor(() => expect(chat.sent).toEqual([`${SERVER_PREFIX}❌ Error: chat is gone`]));
+    expect(handleClaudeQuery).not.toHaveBeenCalled();
+  });
+
+  it('runs commands without queueing a query', async () => {
+    const chat = fakeChat('commands');
+    await router.routeMessage(fakeMessage('!help'), chat);
+
+    expect(router.getQueueStatus()[chat.id]).toEqual({ size: 0, pending: 0 });
+    expect(handleClaudeQuery).not.toHaveBeenCalled();
+    expect(chat.sent[0]).toContain('!status');
+    expect(chat.sent.every((text) => text.startsWith(SERVER_PREFIX))).toBe(true);
+  });
+
+  it('drops queued and batched messages on !stop all and records them in the history', async () => {
+    handleClaudeQuery.mockImplementation(({ abortController }) => new Promise((resolve) => {
+      abortController.signal.addEventListener('abort', () => resolve('⏹️ Cancelled'));
+    }));
+    const chat = fakeChat('stop-all');
+    writeGroupSettings('stop-all', { maxQueueSize: 5 });
+    await router.routeMessage(fakeMessage('refactor everything'), chat);
+    await vi.waitFor(() => expect(handleClaudeQuery).toHaveBeenCalledTimes(1));
+    await router.routeMessage(fakeMessage('then update the docs'), chat);
+    await vi.waitFor(() => expect(router.getQueuedTasks(chat.id)).toHaveLength(1));
+    await router.routeMessage(fakeMessage('and bump the version', { sender: 'bob@c.us' }), chat);
+
+    await router.routeMessage(fakeMessage('!stop all'), chat);
+
+    expect(chat.sent.at(-1)).toContain('Dropped 2 queued message(s).');
+    expect(router.isGroupBusy(chat.id)).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(handleClaudeQuery).toHaveBeenCalledTimes(1);
+
+    const { messages } = await history.readHistoryPage(join(projectsRoot, 'stop-all'));
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ role: 'system', senderName: 'alice' });
+    expect(messages[0].content).toContain('alice dropped 2 queued message(s) with !stop all');
+    expect(messages[0].content).toContain('- alice: "then update the docs"');
+    expect(messages[0].content).toContain('- bob: "and bump the version"');
+  });
+
+  it('passes approval replies to the running query instead of queueing them', async () => {
+    config.approval.enabled = true;
+    handleClaudeQuery.mockImplementation(async ({ canUseTool }) => {
+      const result = await canUseTool('Bash', { command: 'rm -rf build' }, { signal: new AbortController().signal });
+      return result.behavior === 'allow' ? 'Deleted.' : 'Not deleted.';
+    });
+    const chat = fakeChat('approvals');
+    await router.routeMessage(fakeMessage('clean up the build'), chat);
+    await vi.waitFor(() => expect(chat.sent[0]).toContain('delete files'));
+
+    await router.routeMessage(fakeMessage('yes', { sender: 'bob@c.us' }), chat);
+
+    await vi.waitFor(() => expect(chat.sent.at(-1)).toBe(`${BOT_PREFIX}Deleted.`));
+    expect(chat.sent.some((text) => text.includes('Approved by bob'))).toBe(true);
+    expect(handleClaudeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  describe('media', () => {
+    it('tells the group when an attachment cannot be downloaded', async () => {
+      const chat = fakeChat('media-missing');
+      await router.routeMessage(fakeMessage('', { hasMedia: true, mediaType: 'image' }), chat);
+
+      expect(chat.sent).toEqual([`${SERVER_PREFIX}📎 Couldn't download the attachment. Please try sending it again.`]);
+      expect(handleClaudeQuery).not.toHaveBeenCalled();
+    });
+
+    it('refuses unsupported media', async () => {
+      const chat = fakeChat('media-unsupported');
+      const downloadMedia = async () => ({ mimetype: 'video/mp4', data: Buffer.from('video').toString('base64') });
+      await router.routeMessage(fakeMessage('', { hasMedia: true, mediaType: 'video', downloadMedia }), chat);
+
+      expect(chat.sent[0]).toContain("I can't process video media yet");
+      expect(handleClaudeQuery).not.toHaveBeenCalled();
+    });
+
+    it('saves images and points the prompt at them', async () => {
+      const chat = fakeChat('media-image');
+      const downloadMedia = async () => ({ mimetype: 'image/png', data: Buffer.from('png').toString('base64'), filename: 'shot.png' });
+      await router.routeMessage(fakeMessage('what is wrong here?', { hasMedia: true, mediaType: 'image', downloadMedia }), chat);
+      await vi.waitFor(() => expect(handleClaudeQuery).toHaveBeenCalledTimes(1));
+
+      const [options] = handleClaudeQuery.mock.calls[0];
+      expect(options.message).toContain('what is wrong here?');
+      expect(options.attachments).toEqual([expect.objectContaining({ kind: 'image' })]);
+    });
+
+    it('transcribes voice notes and queues the transcript as text', async () => {
+      transcription.setTranscriber({ name: 'fake', transcribe: async () => 'run the tests' });
+      const chat = fakeChat('voice');
+      const downloadMedia = async () => ({ mimetype: 'audio/ogg; codecs=opus', data: Buffer.from('ogg').toString('base64') });
+      try {
+        await router.routeMessage(fakeMessage('', { hasMedia: true, mediaType: 'ptt', downloadMedia }), chat);
+        await vi.waitFor(() => expect(handleClaudeQuery).toHaveBeenCalledTimes(1));
+
+        expect(chat.sent[0]).toBe(`${SERVER_PREFIX}🎙️ Transcript: "run the tests"`);
+        expect(handleClaudeQuery.mock.calls[0][0].message).toBe('run the tests');
+
+        transcription.setTranscriber(undefined);
+        await router.routeMessage(fakeMessage('', { hasMedia: true, mediaType: 'ptt', downloadMedia }), chat);
+        expect(chat.sent).toContain(`${SERVER_PREFIX}🎙️ Voice notes are not enabled on this bridge. Please send text instead.`);
+      } finally {
+        transcription.setTranscriber(undefined);
+      }
+    });
+  });
+
+  describe('roles', () => {
+    it('turns away senders who are not members', async () => {
+      const chat = fakeChat('members');
+      setMembers('members', { 'alice@c.us': 'owner' });
+      await router.routeMessage(fakeMessage('delete everything', { sender: 'mallory@c.us' }), chat);
+
+      expect(chat.sent).toEqual([`${SERVER_PREFIX}🚫 mallory (mallory@c.us) is not a member of this group.`]);
+      expect(router.getQueueStatus()[chat.id]).toBeUndefined();
+      expect(handleClaudeQuery).not.toHaveBeenCalled();
+    });
+
+    it('refuses commands above the sender role', async () => {
+      const chat = fakeChat('readonly');
+      setMembers('readonly', { 'alice@c.us': 'owner', 'dave@c.us': 'readonly' });
+      await router.routeMessage(fakeMessage('!new', { sender: 'dave@c.us' }), chat);
+
+      expect(chat.sent[0]).toContain('requires the contributor role');
+    });
+
+    it('only lets owners answer approval prompts', async () => {
+      config.approval.enabled = true;
+      handleClaudeQuery.mockImplementation(async ({ canUseTool }) => {
+        const result = await canUseTool('Bash', { command: 'rm -rf build' }, { signal: new AbortController().signal });
+        return result.behavior === 'allow' ? 'Deleted.' : 'Not deleted.';
+      });
+      const chat = fakeChat('owners');
+      setMembers('owners', { 'alice@c.us': 'owner', 'carol@c.us': 'contributor' });
+      await router.routeMessage(fakeMessage('clean up the build'), chat);
+      await vi.waitFor(() => expect(chat.sent[0]).toContain('delete files'));
+
+      await router.routeMessage(fakeMessage('yes', { sender: 'carol@c.us' }), chat);
+      expect(chat.sent.at(-1)).toBe(`${SERVER_PREFIX}🚫 Only owners can approve tool uses (carol is contributor).`);
+
+      await router.routeMessage(fakeMessage('yes'), chat);
+      await vi.waitFor(() => expect(chat.sent.at(-1)).toBe(`${BOT_PREFIX}Deleted.`));
+    });
+
+    it('runs a batch with the least privileged sender role', async () => {
+      const chat = fakeChat('mixed');
+      setMembers('mixed', { 'alice@c.us': 'owner', 'dave@c.us': 'readonly' });
+      await router.routeMessage(fakeMessage('refactor the API'), chat);
+      await router.routeMessage(fakeMessage('and explain it', { sender: 'dave@c.us' }), chat);
+
+      await vi.waitFor(() => expect(handleClaudeQuery).toHaveBeenCalledTimes(1));
+      expect(handleClaudeQuery.mock.calls[0][0].role).toBe('readonly');
+    });
+  });
+});
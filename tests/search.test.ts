@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { appendToHistory, getHistoryPath, rotateHistory } from '../src/history.js';
+import { createRegexTest, parseSearchQuery, searchHistory, searchProject, tokenize } from '../src/search.js';
+import type { StoredMessage } from '../src/types.js';
+
+let counter = 0;
+
+function message(overrides: Partial<StoredMessage>): StoredMessage {
+  counter++;
+  return {
+    id: `m${counter}`,
+    ts: `2026-03-0${counter % 9 + 1}T10:00:00.000Z`,
+    groupId: 'g1@g.us',
+    groupName: 'Claude: webapp',
+    role: 'user',
+    sender: '15551234567@c.us',
+    senderName: 'Alice',
+    content: '',
+    ...overrides,
+  };
+}
+
+describe('search', () => {
+  let root: string;
+  let webapp: string;
+  let cli: string;
+
+  beforeEach(() => {
+    counter = 0;
+    root = mkdtempSync(join(tmpdir(), 'whatsclaude-search-'));
+    webapp = join(root, 'webapp');
+    cli = join(root, 'cli');
+    appendToHistory(webapp, message({ content: 'Fix the login bug please' }));
+    appendToHistory(webapp, message({ role: 'assistant', sender: 'claude', senderName: 'Claude', content: 'Fixed the login bug in auth.ts' }));
+    appendToHistory(webapp, message({ senderName: 'Bob', sender: '4420000000@c.us', content: 'Now deploy it' }));
+    appendToHistory(cli, message({ groupId: 'g2@g.us', groupName: 'Claude: cli', content: 'Add a --verbose flag to login' }));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('tokenizes into unique lowercased words', () => {
+    expect(tokenize('Fix the Login-bug, fix it!')).toEqual(['fix', 'the', 'login', 'bug', 'it']);
+  });
+
+  it('finds messages containing every word across projects, newest first', () => {
+    const results = searchHistory({ text: 'login' }, [webapp, cli]);
+    expect(results.map((r) => r.message.content)).toEqual([
+      'Add a --verbose flag to login',
+      'Fixed the login bug in auth.ts',
+      'Fix the login bug please',
+    ]);
+    expect(searchHistory({ text: 'bug login' }, [webapp, cli])).toHaveLength(2);
+  });
+
+  it('filters by group, sender, role and date', () => {
+    expect(searchHistory({ group: 'cli' }, [webapp, cli]).map((r) => r.message.groupName)).toEqual(['Claude: cli']);
+    expect(searchProject(webapp, { sender: 'bob' }).map((r) => r.message.content)).toEqual(['Now deploy it']);
+    expect(searchProject(webapp, { sender: '+44 20 000 000' })).toHaveLength(1);
+    expect(searchProject(webapp, { role: 'assistant' })).toHaveLength(1);
+    expect(searchProject(webapp, { since: new Date('2026-03-03'), until: new Date('2026-03-04') })).toHaveLength(1);
+  });
+
+  it('filters by regex', () => {
+    expect(searchProject(webapp, { regex: /auth\.\w+/ }).map((r) => r.message.id)).toEqual(['m2']);
+  });
+
+  it('picks up messages appended after the index was built', () => {
+    expect(searchProject(webapp, { text: 'rollback' })).toHaveLength(0);
+    appendToHistory(webapp, message({ content: 'Please rollback the deploy' }));
+    expect(searchProject(webapp, { text: 'rollback' })).toHaveLength(1);
+    expect(searchProject(webapp, {})).toHaveLength(4);
+  });
+
+  it('skips a partial last line until it is complete', () => {
+    searchProject(webapp, {});
+    const line = JSON.stringify(message({ content: 'half written' }));
+    appendFileSync(getHistoryPath(webapp), line.slice(0, 20));
+    expect(searchProject(webapp, { text: 'written' })).toHaveLength(0);
+    appendFileSync(getHistoryPath(webapp), `${line.slice(20)}\n`);
+    expect(searchProject(webapp, { text: 'written' })).toHaveLength(1);
+  });
+
+  it('searches rotated segments as well as the live file', () => {
+    searchProject(webapp, {});
+    rotateHistory(webapp);
+    appendToHistory(webapp, message({ content: 'Another login question' }));
+
+    expect(searchProject(webapp, { text: 'login' }).map((r) => r.message.content)).toEqual([
+      'Another login question',
+      'Fixed the login bug in auth.ts',
+      'Fix the login bug please',
+    ]);
+    expect(searchProject(webapp, { text: 'login', since: new Date('2026-03-05') })).toHaveLength(1);
+  });
+
+  describe('parseSearchQuery', () => {
+    it('parses filters, regex and text', () => {
+      const query = parseSearchQuery('sender:alice role:user since:2026-01-01 until:2026-01-31 limit:5 /TODO|FIXME/ login bug');
+      expect(query).toMatchObject({ sender: 'alice', role: 'user', limit: 5, text: 'login bug' });
+      expect(query.since?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+      expect(query.until?.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+      expect(query.regex?.test('a todo')).toBe(true);
+    });
+
+    it('rejects invalid filter values', () => {
+      expect(() => parseSearchQuery('role:admin')).toThrow(/Invalid role/);
+      expect(() => parseSearchQuery('since:yesterday')).toThrow(/Invalid date/);
+      expect(() => parseSearchQuery('/(/')).toThrow(/Invalid regex/);
+      expect(() => parseSearchQuery(`/${'a'.repeat(201)}/`)).toThrow(/too long/);
+    });
+
+    it('rejects text without a searchable word', () => {
+      expect(() => parseSearchQuery('x')).toThrow(/Nothing to search for/);
+      expect(() => parseSearchQuery('5 ? since:2026-01-01')).toThrow(/Nothing to search for/);
+      expect(parseSearchQuery('a login').text).toBe('a login');
+    });
+
+    it('drops regex flags that make matching stateful', () => {
+      const { regex } = parseSearchQuery('/x/gy');
+      expect(regex?.flags).toBe('i');
+      expect(['x', 'x', 'x'].map((text) => regex!.test(text))).toEqual([true, true, true]);
+      expect(parseSearchQuery('/a.b/sm').regex?.flags).toBe('ims');
+    });
+  });
+
+  describe('createRegexTest', () => {
+    it('gives up on catastrophic backtracking', () => {
+      const test = createRegexTest(/^(a+)+$/, 200);
+      expect(test('aaaa')).toBe(true);
+      expect(() => test(`${'a'.repeat(40)}b`)).toThrow(/took too long/);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Sessions are persisted under PROJECTS_ROOT, so point it at a temp dir before loading the modules
+const projectsRoot = mkdtempSync(join(tmpdir(), 'whatsclaude-sessions-'));
+process.env.PROJECTS_ROOT = projectsRoot;
+
+let sessions: typeof import('../src/sessions.js');
+let sweeper: typeof import('../src/sweeper.js');
+
+beforeAll(async () => {
+  sessions = await import('../src/sessions.js');
+  sweeper = await import('../src/sweeper.js');
+});
+
+afterAll(() => {
+  rmSync(projectsRoot, { recursive: true, force: true });
+});
+
+function session(id: string, lastActivity = new Date().toISOString()) {
+  return { sessionId: id, projectPath: '/p', groupName: 'Claude: test', lastActivity };
+}
+
+describe('sessions', () => {
+  describe('archive and restore', () => {
+    it('archives the active session', () => {
+      sessions.setSession('g1', session('s1'));
+      const archived = sessions.archiveSession('g1', 'cleared');
+
+      expect(archived?.sessionId).toBe('s1');
+      expect(sessions.getSession('g1')).toBeUndefined();
+      expect(sessions.getArchivedSessions('g1').map((s) => s.sessionId)).toEqual(['s1']);
+    });
+
+    it('returns undefined when there is nothing to archive', () => {
+      expect(sessions.archiveSession('nobody', 'cleared')).toBeUndefined();
+    });
+
+    it('restores by position, archiving the current session', () => {
+      sessions.setSession('g2', session('a'));
+      sessions.archiveSession('g2', 'first');
+      sessions.setSession('g2', session('b'));
+      sessions.archiveSession('g2', 'second');
+      sessions.setSession('g2', session('c'));
+
+      // Most recent first: b, a
+      const restored = sessions.restoreSession('g2', 1);
+
+      expect(restored?.sessionId).toBe('a');
+      expect(sessions.getSession('g2')?.sessionId).toBe('a');
+      expect(sessions.getArchivedSessions('g2').map((s) => s.sessionId)).toEqual(['c', 'b']);
+    });
+
+    it('returns undefined for a missing archive entry', () => {
+      expect(sessions.restoreSession('g2', 5)).toBeUndefined();
+    });
+  });
+
+  describe('idle expiry', () => {
+    it('finds sessions idle past the threshold', () => {
+      const now = Date.now();
+      sessions.setSession('idle', session('old', new Date(now - 2 * 3600_000).toISOString()));
+      sessions.setSession('fresh', session('new', new Date(now).toISOString()));
+
+      const idle = sessions.findIdleSessions(3600_000, now);
+      expect(idle).toContain('idle');
+      expect(idle).not.toContain('fresh');
+    });
+
+    it('sweeps idle sessions that are not busy and notifies the group', async () => {
+      const old = new Date(Date.now() - 2 * 3600_000).toISOString();
+      sessions.setSession('sweep-me', session('x', old));
+      sessions.setSession('busy', session('y', old));
+
+      const notified: string[] = [];
+      const instance = sweeper.startSessionSweeper({
+        idleMs: 3600_000,
+        intervalMs: 60_000,
+        isBusy: (groupId) => groupId === 'busy',
+        notify: async (groupId) => {
+          notified.push(groupId);
+        },
+      });
+      try {
+        const archived = await instance.sweep();
+
+        expect(archived.map((s) => s.sessionId)).toContain('x');
+        expect(notified).toContain('sweep-me');
+        expect(notified).not.toContain('busy');
+        expect(sessions.getSession('busy')).toBeDefined();
+        expect(sessions.getArchivedSessions('sweep-me')[0].reason).toBe('idle for 1h 0m');
+      } finally {
+        instance.stop();
+      }
+    });
+  });
+
+  describe('named sessions', () => {
+    it('starts in the default session', () => {
+      expect(sessions.getActiveSessionName('n0')).toBe('main');
+      expect(sessions.listNamedSessions('n0')).toEqual([{ name: 'main', active: true, session: undefined }]);
+    });
+
+    it('forks from the current SDK session and keeps the original', () => {
+      sessions.setSession('n1', session('base'));
+      const forked = sessions.forkSession('n1', 'experiment');
+
+      expect(forked).toMatchObject({ sessionId: 'base', fork: true });
+      expect(sessions.getActiveSessionName('n1')).toBe('experiment');
+      const list = sessions.listNamedSessions('n1');
+      expect(list.map((s) => [s.name, s.active, s.session?.sessionId])).toEqual([
+        ['experiment', true, 'base'],
+        ['main', false, 'base'],
+      ]);
+      expect(list[1].session?.fork).toBeUndefined();
+    });
+
+    it('switches between named sessions', () => {
+      sessions.setSession('n2', session('one'));
+      sessions.forkSession('n2', 'alt');
+      sessions.setSession('n2', session('two'));
+
+      expect(sessions.switchSession('n2', 'main')).toBe(true);
+      expect(sessions.getActiveSessionName('n2')).toBe('main');
+      expect(sessions.getSession('n2')?.sessionId).toBe('one');
+
+      expect(sessions.switchSession('n2', 'alt')).toBe(true);
+      expect(sessions.getSession('n2')?.sessionId).toBe('two');
+    });
+
+    it('refuses to switch to an unknown session', () => {
+      expect(sessions.switchSession('n2', 'nope')).toBe(false);
+    });
+  });
+});
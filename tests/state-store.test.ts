@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { emptyState, loadStateFile, migrateState, saveStateFile, STATE_VERSION } from '../src/state-store.js';
+
+const session = {
+  sessionId: 's1',
+  projectPath: '/p',
+  groupName: 'Claude: test',
+  lastActivity: '2026-01-01T00:00:00.000Z',
+};
+
+describe('state-store', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'whatsclaude-state-'));
+    path = join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('migrateState', () => {
+    it('migrates the sessions-only format', () => {
+      const state = migrateState({ g1: session });
+      expect(state).toEqual({ ...emptyState(), sessions: { g1: session } });
+    });
+
+    it('migrates the unversioned sessions + registry format', () => {
+      const state = migrateState({ sessions: { g1: session }, groupRegistry: { test: 'g1' } });
+      expect(state.version).toBe(STATE_VERSION);
+      expect(state.groupRegistry).toEqual({ test: 'g1' });
+      expect(state.branches).toEqual({});
+    });
+
+    it('rejects files from a newer version', () => {
+      expect(() => migrateState({ ...emptyState(), version: STATE_VERSION + 1 })).toThrow(/newer/);
+    });
+
+    it('rejects malformed state', () => {
+      expect(() => migrateState({ ...emptyState(), sessions: { g1: { sessionId: 1 } } })).toThrow(/invalid state/);
+    });
+  });
+
+  describe('save and load', () => {
+    it('round-trips state and keeps a backup of the previous write', () => {
+      const first = { ...emptyState(), sessions: { g1: session } };
+      const second = { ...emptyState(), groupRegistry: { test: 'g1' } };
+      saveStateFile(path, first);
+      saveStateFile(path, second);
+
+      expect(loadStateFile(path)).toEqual({ state: second });
+      expect(JSON.parse(readFileSync(`${path}.bak`, 'utf-8'))).toEqual(first);
+      expect(readdirSync(dir).some((f) => f.includes('.tmp-'))).toBe(false);
+    });
+
+    it('starts empty without a report when there is no file', () => {
+      expect(loadStateFile(path)).toEqual({ state: emptyState() });
+    });
+
+    it('recovers from the backup and reports a corrupt file', () => {
+      const good = { ...emptyState(), sessions: { g1: session } };
+      saveStateFile(path, good);
+      saveStateFile(path, good);
+      writeFileSync(path, '{"sessions": {"g1": ');
+
+      const { state, corruption } = loadStateFile(path);
+
+      expect(state).toEqual(good);
+      expect(corruption?.recoveredFrom).toBe('backup');
+      expect(existsSync(path)).toBe(false);
+      expect(readFileSync(corruption!.preservedAs, 'utf-8')).toBe('{"sessions": {"g1": ');
+      expect(existsSync(`${corruption!.preservedAs}.report.json`)).toBe(true);
+    });
+
+    it('reports a corrupt file with no usable backup', () => {
+      writeFileSync(path, 'not json');
+      const { state, corruption } = loadStateFile(path);
+
+      expect(state).toEqual(emptyState());
+      expect(corruption?.recoveredFrom).toBe('none');
+    });
+  });
+});
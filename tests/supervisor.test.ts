@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createConnectionSupervisor, getBackoffDelay, type SupervisorOptions } from '../src/supervisor.js';
+
+describe('supervisor', () => {
+  const policy = { initialDelayMs: 1000, maxDelayMs: 8000, attemptTimeoutMs: 5000, maxAttempts: 3, cooldownMs: 60000 };
+  let alert: ReturnType<typeof vi.fn>;
+  let reconnect: ReturnType<typeof vi.fn>;
+
+  const create = (overrides: Partial<SupervisorOptions> = {}) =>
+    createConnectionSupervisor({ name: 'test', ...policy, reconnect, alert, random: () => 0.5, ...overrides });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    alert = vi.fn();
+    reconnect = vi.fn().mockRejectedValue(new Error('no network'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially up to the maximum, with jitter', () => {
+    expect([0, 1, 2, 3, 4].map((n) => getBackoffDelay(n, policy, () => 0.5))).toEqual([1000, 2000, 4000, 8000, 8000]);
+    expect(getBackoffDelay(0, policy, () => 0)).toBe(800);
+    expect(getBackoffDelay(0, policy, () => 1)).toBe(1200);
+  });
+
+  it('retries with growing delays, then opens the circuit and alerts', async () => {
+    const supervisor = create();
+    supervisor.disconnected();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(reconnect).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2000 + 4000);
+    expect(reconnect).toHaveBeenCalledTimes(3);
+
+    expect(supervisor.getState()).toMatchObject({ attempts: 3, circuit: 'open', loggedOut: false });
+    expect(alert).toHaveBeenCalledWith('reconnect_failing', expect.stringContaining('3 reconnect attempts failed'));
+
+    // One trial attempt after the cooldown; another failure reopens the circuit without a second alert
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(reconnect).toHaveBeenCalledTimes(4);
+    expect(supervisor.getState().circuit).toBe('open');
+    expect(alert).toHaveBeenCalledTimes(1);
+    supervisor.stop();
+  });
+
+  it('counts an attempt that never connects as failed', async () => {
+    reconnect.mockResolvedValue(undefined);
+    const supervisor = create();
+    supervisor.disconnected();
+
+    await vi.advanceTimersByTimeAsync(1000 + 5000);
+    expect(supervisor.getState().attempts).toBe(1);
+    supervisor.stop();
+  });
+
+  it('resets on connect and says when it recovered', async () => {
+    const supervisor = create({ maxAttempts: 1 });
+    supervisor.disconnected();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(supervisor.getState().circuit).toBe('open');
+
+    supervisor.connected();
+
+    expect(supervisor.getState()).toEqual({ attempts: 0, circuit: 'closed', loggedOut: false });
+    expect(alert).toHaveBeenLastCalledWith('recovered', expect.any(String));
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying when logged out and asks for a QR code scan once', async () => {
+    reconnect.mockResolvedValue(undefined);
+    const supervisor = create();
+    supervisor.loggedOut('WhatsApp logged out (LOGOUT)');
+    supervisor.loggedOut('WhatsApp asked for a new QR code scan');
+    supervisor.disconnected();
+
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert).toHaveBeenCalledWith('auth_required', expect.stringContaining('LOGOUT'));
+    // Only the restart that shows the new QR code
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    expect(supervisor.getState().loggedOut).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import { createTerminalTransport } from '../src/terminal.js';
+import type { ChatHandle, InboundMessage } from '../src/types.js';
+
+describe('terminal transport', () => {
+  function setup(groupName?: string) {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const received: { message: InboundMessage; chat: ChatHandle }[] = [];
+    const transport = createTerminalTransport(
+      {
+        onMessage: async (message, chat) => {
+          received.push({ message, chat });
+        },
+      },
+      { input, output, groupName, senderName: 'tester' }
+    );
+    return { input, output, received, transport };
+  }
+
+  async function flush(): Promise<void> {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  it('delivers lines as group messages with the group prefix', async () => {
+    const { input, received, transport } = setup('demo');
+    await transport.start();
+
+    input.write('hello there\n');
+    await flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].message.body).toBe('hello there');
+    expect(received[0].chat.name).toBe('Claude: demo');
+    expect(received[0].chat.isGroup).toBe(true);
+    expect(await received[0].message.getSender()).toEqual({ id: 'terminal:tester', name: 'tester' });
+
+    await transport.stop();
+  });
+
+  it('switches groups with /group and skips blank lines', async () => {
+    const { input, received, transport } = setup();
+    await transport.start();
+
+    input.write('\n/group other\nhi\n');
+    await flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].chat.name).toBe('Claude: other');
+    expect(received[0].chat.id).toBe('terminal:Claude: other');
+
+    await transport.stop();
+  });
+
+  it('writes sent messages to the output stream', async () => {
+    const { input, output, received, transport } = setup('demo');
+    await transport.start();
+    input.write('ping\n');
+    await flush();
+
+    await received[0].chat.sendMessage('pong');
+    expect(String(output.read())).toContain('[Claude: demo] pong');
+
+    await transport.stop();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  isAudioMedia,
+  createStubTranscriber,
+  getTranscriber,
+  setTranscriber,
+} from '../src/transcription.js';
+
+describe('transcription', () => {
+  describe('isAudioMedia', () => {
+    it('recognizes voice notes and audio files', () => {
+      expect(isAudioMedia('ptt', 'audio/ogg; codecs=opus')).toBe(true);
+      expect(isAudioMedia('audio', 'audio/mpeg')).toBe(true);
+      expect(isAudioMedia(undefined, 'audio/wav')).toBe(true);
+    });
+
+    it('ignores other media', () => {
+      expect(isAudioMedia('image', 'image/jpeg')).toBe(false);
+      expect(isAudioMedia('document', 'application/pdf')).toBe(false);
+    });
+  });
+
+  describe('transcriber registry', () => {
+    const original = getTranscriber();
+
+    afterEach(() => {
+      setTranscriber(original);
+    });
+
+    it('uses the configured transcriber', async () => {
+      setTranscriber(createStubTranscriber((audio) => `heard ${audio.mimetype}`));
+      const transcript = await getTranscriber()!.transcribe({ mimetype: 'audio/ogg', data: '' });
+      expect(transcript).toBe('heard audio/ogg');
+    });
+  });
+});
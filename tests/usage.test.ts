@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkBudget, extractUsage, formatCost, getUsagePath, readUsage, recordUsage, summarizeUsage, type UsageRecord } from '../src/usage.js';
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+
+function record(ts: string, senderName: string, costUsd: number): UsageRecord {
+  return {
+    ts,
+    groupId: 'g1',
+    messageId: `m-${ts}`,
+    senderId: senderName.toLowerCase(),
+    senderName,
+    kind: 'query',
+    inputTokens: 100,
+    outputTokens: 20,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    costUsd,
+    durationMs: 1000,
+    numTurns: 2,
+  };
+}
+
+describe('usage', () => {
+  it('extracts usage from an SDK result', () => {
+    const result = {
+      type: 'result',
+      subtype: 'success',
+      total_cost_usd: 0.05,
+      duration_ms: 4200,
+      num_turns: 3,
+      usage: { input_tokens: 10, output_tokens: 200, cache_read_input_tokens: 3000, cache_creation_input_tokens: 500 },
+    } as unknown as SDKResultMessage;
+
+    expect(extractUsage(result)).toEqual({
+      inputTokens: 10,
+      outputTokens: 200,
+      cacheReadTokens: 3000,
+      cacheCreationTokens: 500,
+      costUsd: 0.05,
+      durationMs: 4200,
+      numTurns: 3,
+    });
+  });
+
+  it('adds up usage in total and per sender, most expensive first', () => {
+    const { total, bySender } = summarizeUsage([
+      record('2026-03-01T10:00:00.000Z', 'Alice', 0.1),
+      record('2026-03-01T11:00:00.000Z', 'Bob', 0.5),
+      record('2026-03-02T10:00:00.000Z', 'Alice', 0.2),
+    ]);
+
+    expect(total.queries).toBe(3);
+    expect(total.costUsd).toBeCloseTo(0.8);
+    expect(total.inputTokens).toBe(300);
+    expect(bySender.map(([name, totals]) => [name, totals.queries])).toEqual([['Bob', 1], ['Alice', 2]]);
+  });
+
+  it('formats costs', () => {
+    expect(formatCost(1.5)).toBe('$1.50');
+    expect(formatCost(0.0042)).toBe('$0.0042');
+  });
+
+  describe('budgets', () => {
+    let root: string;
+    let projectPath: string;
+    const now = new Date(2026, 2, 15, 12);
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'whatsclaude-usage-'));
+      projectPath = join(root, 'webapp');
+      recordUsage(projectPath, record(new Date(2026, 1, 20).toISOString(), 'Alice', 50));
+      recordUsage(projectPath, record(new Date(2026, 2, 3).toISOString(), 'Alice', 4));
+      recordUsage(projectPath, record(new Date(2026, 2, 15, 9).toISOString(), 'Bob', 1.5));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('reads the ledger since a time', () => {
+      expect(readUsage(projectPath)).toHaveLength(3);
+      expect(readUsage(projectPath, new Date(2026, 2, 1))).toHaveLength(2);
+    });
+
+    it('allows queries without a budget or under it', () => {
+      expect(checkBudget(projectPath, undefined, now)).toBeUndefined();
+      expect(checkBudget(projectPath, { dailyUsd: 2, monthlyUsd: 10 }, now)).toBeUndefined();
+    });
+
+    it('blocks queries once the daily or monthly budget is spent', () => {
+      expect(checkBudget(projectPath, { dailyUsd: 1.5 }, now)).toMatch(/^Daily budget of \$1\.50 reached/);
+      expect(checkBudget(projectPath, { monthlyUsd: 5 }, now)).toMatch(/^Monthly budget of \$5\.00 reached \(\$5\.50 spent\)/);
+    });
+
+    it('keeps the ledger outside the project and moves an old one out', () => {
+      expect(getUsagePath(projectPath)).toBe(join(root, '.whatsclaude-usage', 'webapp.jsonl'));
+
+      const oldProject = join(root, 'legacy');
+      mkdirSync(join(oldProject, '.whatsclaude'), { recursive: true });
+      writeFileSync(join(oldProject, '.whatsclaude', 'usage.jsonl'), JSON.stringify(record(now.toISOString(), 'Alice', 1)) + '\n');
+
+      expect(readUsage(oldProject)).toHaveLength(1);
+      expect(existsSync(join(oldProject, '.whatsclaude', 'usage.jsonl'))).toBe(false);
+    });
+  });
+});